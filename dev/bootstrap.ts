@@ -15,6 +15,7 @@ import { BaseBlock } from "@staffbase/widget-sdk";
 import WidgetApiMock from "./widget-api-mock";
 import { fromDataUri, prepareAttributes } from "./utils/DataUtil";
 import { baseAttributes } from "./constants";
+import { installReplaySocket } from "./replay-socket";
 import Config from "./config";
 import ReactDOM from "react-dom/client";
 import React from "react";
@@ -66,6 +67,8 @@ class FakeBaseClass extends window.HTMLElement implements BaseBlock {
   contentLanguage = "en_US";
 }
 
+installReplaySocket();
+
 window.defineBlock = function (externalBlockDefinition) {
   const customElementName = externalBlockDefinition.blockDefinition.name;
   const CustomElementClass = externalBlockDefinition.blockDefinition.factory(
@@ -0,0 +1,115 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Local stand-in for Polygon's stock WebSocket. It speaks the same protocol
+ * (connected → auth → subscribe) and replays a recorded tick pattern in a loop,
+ * so live mode can be developed and tested without network access.
+ *
+ * Point the widget's streaming url at REPLAY_SOCKET_URL to use it.
+ */
+
+export const REPLAY_SOCKET_URL = "ws://localhost/replay";
+
+// Relative price moves between two ticks
+const recordedMoves = [
+  0.0012, -0.0008, 0.0021, 0.0004, -0.0015, -0.0009, 0.0017, 0.0003, -0.0022, 0.0011,
+  0.0006, -0.0004, 0.0013, -0.0018, 0.0009, 0.0002, -0.0007, 0.0016, -0.0011, 0.0005,
+];
+
+const startPrices: Record<string, number> = {
+  VNI: 173.2,
+  AAPL: 190,
+};
+
+export const REPLAY_TICK_INTERVAL_MS = 1000;
+
+// Authenticating with this key fails, like an invalid key does at Polygon
+export const REPLAY_REJECTED_API_KEY = "rejected";
+
+export class ReplaySocket {
+  public static readonly CONNECTING = 0;
+  public static readonly OPEN = 1;
+  public static readonly CLOSING = 2;
+  public static readonly CLOSED = 3;
+
+  public readyState = ReplaySocket.CONNECTING;
+  public onopen: ((event: Event) => void) | null = null;
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+  public onerror: ((event: Event) => void) | null = null;
+  public onclose: ((event: CloseEvent) => void) | null = null;
+
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private tick = 0;
+  private prices: Record<string, number> = {};
+
+  public constructor(public readonly url: string) {
+    setTimeout(() => {
+      if (this.readyState !== ReplaySocket.CONNECTING) return;
+      this.readyState = ReplaySocket.OPEN;
+      this.onopen?.(new Event("open"));
+      this.emit([{ ev: "status", status: "connected", message: "Connected Successfully" }]);
+    }, 0);
+  }
+
+  public send(data: string): void {
+    const { action, params } = JSON.parse(data) as { action: string; params: string };
+    if (action === "auth" && params === REPLAY_REJECTED_API_KEY) {
+      this.emit([{ ev: "status", status: "auth_failed", message: "authentication failed" }]);
+      this.close();
+    } else if (action === "auth") {
+      this.emit([{ ev: "status", status: "auth_success", message: "authenticated" }]);
+    } else if (action === "subscribe") {
+      for (const channel of params.split(",")) {
+        const symbol = channel.replace(/^T\./, "");
+        this.prices[symbol] = startPrices[symbol] ?? 100;
+      }
+      this.emit([{ ev: "status", status: "success", message: `subscribed to: ${params}` }]);
+      this.timer ??= setInterval(() => this.replayTick(), REPLAY_TICK_INTERVAL_MS);
+    }
+  }
+
+  public close(): void {
+    clearInterval(this.timer);
+    this.readyState = ReplaySocket.CLOSED;
+    this.onclose?.(new CloseEvent("close"));
+  }
+
+  private replayTick() {
+    const move = recordedMoves[this.tick++ % recordedMoves.length];
+    this.emit(
+      Object.keys(this.prices).map((sym) => {
+        this.prices[sym] = Math.round(this.prices[sym] * (1 + move) * 100) / 100;
+        return { ev: "T", sym, p: this.prices[sym], s: 100, t: Date.now() };
+      }),
+    );
+  }
+
+  private emit(events: unknown[]) {
+    this.onmessage?.(new MessageEvent("message", { data: JSON.stringify(events) }));
+  }
+}
+
+/**
+ * Routes sockets for REPLAY_SOCKET_URL to the ReplaySocket, everything else to the real WebSocket
+ */
+export const installReplaySocket = (): void => {
+  const NativeWebSocket = window.WebSocket;
+  window.WebSocket = new Proxy(NativeWebSocket, {
+    construct(target, args: ConstructorParameters<typeof WebSocket>) {
+      return String(args[0]).startsWith(REPLAY_SOCKET_URL)
+        ? new ReplaySocket(String(args[0]))
+        : new target(...args);
+    },
+  });
+};
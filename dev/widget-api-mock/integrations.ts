@@ -13,11 +13,42 @@
 
 import {IntegrationInformation, IntegrationStates, IntegrationType} from '@staffbase/widget-sdk'
 
+/**
+ * Simulated integration states, pick one with the `integration` query parameter,
+ * e.g. http://localhost:9000/?integration=expired
+ */
+type Scenario = 'available' | 'expired' | 'loggedOut' | 'unavailable'
+
+const getScenario = (): Scenario => {
+    const scenario = new URLSearchParams(window.location.search).get('integration')
+    return scenario === 'expired' || scenario === 'loggedOut' || scenario === 'unavailable'
+        ? scenario
+        : 'available'
+}
+
 export default async (_type: IntegrationType): Promise<IntegrationInformation> => {
+    const scenario = getScenario();
     const date = new Date();
     const expireDate = new Date();
 
-    expireDate.setDate(date.getDate() + 1);
+    expireDate.setDate(date.getDate() + (scenario === 'expired' ? -1 : 1));
+
+    if (scenario === 'unavailable') {
+        return {
+            status: IntegrationStates.UNAVAILABLE,
+            enabledFeatures: [],
+            supportedFeatures: ['foo'],
+        }
+    }
+
+    if (scenario === 'loggedOut') {
+        return {
+            status: IntegrationStates.LOGGED_OUT,
+            enabledFeatures: [],
+            supportedFeatures: ['foo'],
+            signIn: () => { console.log('Sign in') }
+        }
+    }
 
     return {
         status: IntegrationStates.AVAILABLE,
@@ -81,8 +81,40 @@ const colors: SBColors = {
   warningYellow: "#F4DF79",
 };
 
-export default (): ColorTheme => ({
-  bgColor: "#00A4FD",
-  textColor: "#FFFFFF",
-  colors,
-});
+const darkColors: SBColors = {
+  ...colors,
+  backgroundField: "#2A2A2A",
+  backgroundFieldLight: "#333333",
+  backgroundPrimary: "#1E1E1E",
+  backgroundSecondary: "#262626",
+  backgroundTertiary: "#333333",
+  borderSolid: "#3A3A3A",
+  borderTranslucent: "rgba(255,255,255,0.12)",
+  textPlaceholder: "#8A8A8A",
+  textPrimary: "#F2F2F2",
+  textSecondary: "#C7C7C7",
+  textTertiary: "#A3A3A3",
+  pressedState: "#3A3A3A",
+  hoverState: "#333333",
+  backgroundBase: "#121212",
+  backgroundLevel1: "#1e1e1e",
+  backgroundLevel2: "#262626",
+  backgroundLevel3: "#333333",
+  backgroundLevel4: "#4d4d4d",
+  hairline: "#2e2e2e",
+  hairlineDark: "#3a3a3a",
+  text: "#f2f2f2",
+};
+
+/**
+ * Light by default, pick the dark preset with the `theme` query parameter,
+ * e.g. http://localhost:9000/?theme=dark
+ */
+export default (): ColorTheme => {
+  const dark = new URLSearchParams(window.location.search).get("theme") === "dark";
+  return {
+    bgColor: "#00A4FD",
+    textColor: "#FFFFFF",
+    colors: dark ? darkColors : colors,
+  };
+};
@@ -1,5 +1,6 @@
 // eslint-disable-next-line no-undef
 module.exports = {
+  globalSetup: "./test/jest-global-setup.js",
   setupFilesAfterEnv: ["./test/jest-setup.js"],
   testEnvironment: "jsdom",
   moduleNameMapper: {
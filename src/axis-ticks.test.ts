@@ -0,0 +1,86 @@
+import { createValueScale } from "./chart-geometry";
+import { getDateTicks, getNiceStep, getValueTicks } from "./axis-ticks";
+
+const getWeekdays = (start: string, count: number): string[] => {
+  const dates: string[] = [];
+  for (let day = new Date(`${start}T00:00:00Z`); dates.length < count; ) {
+    if (day.getUTCDay() % 6 !== 0) dates.push(day.toISOString().slice(0, 10));
+    day = new Date(day.getTime() + 24 * 60 * 60 * 1000);
+  }
+  return dates;
+};
+
+describe("axis ticks", () => {
+  it("picks nice steps", () => {
+    expect(getNiceStep(53, 4)).toBe(20);
+    expect(getNiceStep(9, 4)).toBe(2.5);
+    expect(getNiceStep(0.3, 4)).toBe(0.1);
+  });
+
+  it("places round price ticks within the scale", () => {
+    expect(getValueTicks(createValueScale([[132, 185.06]]), 4)).toEqual([140, 160, 180]);
+    expect(getValueTicks(createValueScale([[132, 185.06]], [], "include-zero"), 4)).toEqual([
+      0, 50, 100, 150,
+    ]);
+    expect(getValueTicks(createValueScale([[0.1, 0.3]]), 4)).toEqual([0.1, 0.15, 0.2, 0.25, 0.3]);
+  });
+
+  it("spreads ticks by powers of ten on a logarithmic scale", () => {
+    expect(getValueTicks(createValueScale([[3, 900]], [], "log"), 8)).toEqual([
+      5, 10, 20, 50, 100, 200, 500,
+    ]);
+    expect(getValueTicks(createValueScale([[3, 9000]], [], "log"), 4)).toEqual([10, 100, 1000]);
+    // a narrow range falls back to linear steps
+    expect(getValueTicks(createValueScale([[132, 185.06]], [], "log"), 4)).toEqual([
+      140, 160, 180,
+    ]);
+  });
+
+  it("labels weekdays on short ranges", () => {
+    const ticks = getDateTicks(getWeekdays("2024-03-11", 5), 6);
+
+    expect(ticks.map((tick) => tick.index)).toEqual([0, 1, 2, 3, 4]);
+    expect(ticks.every((tick) => tick.unit === "day")).toBe(true);
+  });
+
+  it("labels the start of each week within a month", () => {
+    const ticks = getDateTicks(getWeekdays("2024-03-06", 20), 6);
+
+    expect(ticks.map((tick) => tick.date)).toEqual([
+      "2024-03-11",
+      "2024-03-18",
+      "2024-03-25",
+      "2024-04-01",
+    ]);
+    expect(ticks[0].unit).toBe("week");
+  });
+
+  it("labels month boundaries on long ranges, in quarters when they do not fit", () => {
+    const year = getWeekdays("2023-07-03", 260);
+    const ticks = getDateTicks(year, 4);
+
+    expect(ticks.map((tick) => tick.date)).toEqual(["2023-10-02", "2024-01-01", "2024-04-01"]);
+    expect(ticks.map((tick) => tick.unit)).toEqual(["month", "year", "month"]);
+    expect(getDateTicks(year.slice(0, 130), 8).map((tick) => tick.date.slice(0, 7))).toEqual([
+      "2023-08",
+      "2023-09",
+      "2023-10",
+      "2023-11",
+      "2023-12",
+    ]);
+  });
+
+  it("labels hours within a day", () => {
+    const dates = Array.from({ length: 13 }, (_, i) =>
+      new Date(Date.UTC(2024, 2, 15, 13, 30 + i * 30)).toISOString()
+    );
+    const ticks = getDateTicks(dates, 4);
+
+    expect(ticks.map((tick) => tick.date)).toEqual([
+      "2024-03-15T14:00:00.000Z",
+      "2024-03-15T16:00:00.000Z",
+      "2024-03-15T18:00:00.000Z",
+    ]);
+    expect(ticks[0].unit).toBe("time");
+  });
+});
@@ -0,0 +1,156 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { ValueScale } from "./chart-geometry";
+
+/**
+ * What a date tick marks, from a full hour on intraday ranges to a new year on long ones
+ */
+export type DateTickUnit = "time" | "day" | "week" | "month" | "year";
+
+export interface DateTick {
+  index: number;
+  date: string;
+  unit: DateTickUnit;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Up to this many days, every day is labelled with its weekday
+const WEEKDAY_SPAN_DAYS = 14;
+
+// Beyond this many days, month boundaries are labelled instead of weeks
+const MONTH_SPAN_DAYS = 45;
+
+// Numbers of months between labelled boundaries, so that they stay on quarters and years
+const monthSteps = [1, 2, 3, 6, 12, 24, 60, 120];
+
+/**
+ * The multiple of 1, 2, 2.5 or 5 and a power of ten that splits the span in at most `maxTicks`
+ */
+export const getNiceStep = (span: number, maxTicks: number): number => {
+  const rough = span / Math.max(maxTicks, 1);
+  if (!(rough > 0) || !Number.isFinite(rough)) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const factor = [1, 2, 2.5, 5, 10].find((candidate) => candidate * magnitude >= rough) ?? 10;
+  return factor * magnitude;
+};
+
+// Multiples of a step collect floating point noise, e.g. 0.30000000000000004
+const roundTick = (value: number): number => Number(value.toPrecision(12));
+
+const getLinearTicks = (min: number, max: number, maxTicks: number): number[] => {
+  const step = getNiceStep(max - min, maxTicks);
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    ticks.push(roundTick(tick));
+  }
+  return ticks;
+};
+
+// On a logarithmic scale, 1, 2 and 5 times each power of ten are evenly spread
+const getLogTicks = (min: number, max: number, maxTicks: number): number[] => {
+  const ticks: number[] = [];
+  for (let power = Math.floor(Math.log10(min)); 10 ** power <= max; power++) {
+    for (const factor of [1, 2, 5]) {
+      const tick = roundTick(factor * 10 ** power);
+      if (tick >= min && tick <= max) ticks.push(tick);
+    }
+  }
+  if (ticks.length > maxTicks) {
+    const decades = ticks.filter((tick) => Number.isInteger(Math.log10(tick)));
+    if (decades.length >= 2) return decades;
+  }
+  return ticks;
+};
+
+/**
+ * Round values within the scale for the value axis and its gridlines
+ */
+export const getValueTicks = (scale: ValueScale, maxTicks: number): number[] => {
+  if (scale.max <= scale.min) return [scale.min];
+  if (scale.mode === "log") {
+    const ticks = getLogTicks(scale.min, scale.max, maxTicks);
+    // a narrow logarithmic range is almost linear and has too few round powers
+    if (ticks.length >= 2 && ticks.length <= maxTicks) return ticks;
+  }
+  return getLinearTicks(scale.min, scale.max, maxTicks);
+};
+
+// Daily dates are plain days, intraday ones ISO timestamps
+const getDayKey = (date: string): string => date.slice(0, 10);
+
+const getWeekKey = (date: string): string => {
+  const day = new Date(`${getDayKey(date)}T00:00:00Z`);
+  // weeks start on Monday
+  const monday = day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS;
+  return new Date(monday).toISOString().slice(0, 10);
+};
+
+const getSpanDays = (dates: string[]): number =>
+  (new Date(getDayKey(dates[dates.length - 1])).getTime() -
+    new Date(getDayKey(dates[0])).getTime()) /
+  DAY_MS;
+
+/**
+ * Indices where the key changes, with the first date only when it starts a key by itself
+ */
+const getBoundaries = (
+  dates: string[],
+  getKey: (date: string) => string,
+  includeFirst: boolean
+): number[] =>
+  dates.flatMap((date, index) =>
+    (index === 0 ? includeFirst : getKey(date) !== getKey(dates[index - 1])) ? [index] : []
+  );
+
+const thin = (indices: number[], maxTicks: number): number[] => {
+  const step = Math.ceil(indices.length / Math.max(maxTicks, 1));
+  return indices.filter((_, i) => i % step === 0);
+};
+
+/**
+ * Dates to label on the time axis: hours within a day, weekdays and weeks on short ranges and
+ * month boundaries on long ones
+ */
+export const getDateTicks = (dates: string[], maxTicks: number): DateTick[] => {
+  if (dates.length < 2) return [];
+  const toTicks = (indices: number[], unit: DateTickUnit) =>
+    indices.map((index) => ({ index, date: dates[index], unit }));
+  const spanDays = getSpanDays(dates);
+
+  if (spanDays < 1) {
+    const hours = getBoundaries(dates, (date) => date.slice(0, 13), false);
+    return toTicks(thin(hours, maxTicks), "time");
+  }
+  if (spanDays <= WEEKDAY_SPAN_DAYS) {
+    const days = getBoundaries(dates, getDayKey, true);
+    if (days.length <= maxTicks) return toTicks(days, "day");
+  }
+  if (spanDays <= MONTH_SPAN_DAYS) {
+    return toTicks(thin(getBoundaries(dates, getWeekKey, false), maxTicks), "week");
+  }
+
+  const months = getBoundaries(dates, (date) => date.slice(0, 7), false);
+  // months counted from year zero, so that every step lands on January
+  const monthNumber = (index: number) =>
+    Number(dates[index].slice(0, 4)) * 12 + Number(dates[index].slice(5, 7)) - 1;
+  const onStep = (step: number) => months.filter((index) => monthNumber(index) % step === 0);
+  const step =
+    monthSteps.find((candidate) => onStep(candidate).length <= maxTicks) ??
+    monthSteps[monthSteps.length - 1];
+  return onStep(step).map((index) => ({
+    index,
+    date: dates[index],
+    unit: monthNumber(index) % 12 === 0 ? "year" : "month",
+  }));
+};
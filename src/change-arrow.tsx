@@ -0,0 +1,38 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React, { ReactElement } from "react";
+
+/**
+ * Small triangle pointing up for gains and down for losses
+ */
+export const ChangeArrow = ({
+  up,
+  color,
+  size = 10,
+}: {
+  up: boolean;
+  color: string;
+  size?: number;
+}): ReactElement => (
+  <svg
+    width={size}
+    height={size}
+    viewBox="0 0 10 10"
+    aria-hidden="true"
+    focusable="false"
+    style={{ display: "block", flexShrink: 0 }}
+  >
+    <polygon points={up ? "5,0 10,10 0,10" : "0,0 10,0 5,10"} fill={color} />
+  </svg>
+);
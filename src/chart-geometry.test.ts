@@ -0,0 +1,92 @@
+import {
+  alignSeriesByDate,
+  createValueScale,
+  getBandIndex,
+  getBandX,
+  getGraphPoints,
+  getNearestIndex,
+  GRAPH_BASE_HEIGHT,
+  GRAPH_BASELINE_INSET,
+  GRAPH_TOP_PADDING,
+  rebaseToPercent,
+  toAreaPath,
+  toBandPath,
+} from "./chart-geometry";
+
+describe("chart geometry", () => {
+  it("scales values between the top padding and the baseline inset", () => {
+    const scale = createValueScale([[10, 20], [15, null]]);
+
+    expect(scale.toY(20)).toBe(GRAPH_TOP_PADDING);
+    expect(scale.toY(10)).toBe(GRAPH_BASE_HEIGHT - GRAPH_BASELINE_INSET);
+  });
+
+  it("closes a band from the upper line back along the lower one", () => {
+    const scale = createValueScale([[0, 10]]);
+    const path = toBandPath(getGraphPoints([8, 10], scale), getGraphPoints([0, 2], scale));
+
+    expect(path).toMatch(/^M 0,\S+ C .* L 200,\S+ C .* 0,150 Z$/);
+  });
+
+  it("widens the scale to include levels outside the values", () => {
+    const scale = createValueScale([[10, 20]], [40]);
+
+    expect(scale.max).toBe(40);
+    expect(scale.toY(40)).toBe(GRAPH_TOP_PADDING);
+    expect(scale.toY(20)).toBeGreaterThan(GRAPH_TOP_PADDING);
+  });
+
+  it("keeps zero in view or spaces equal ratios evenly", () => {
+    const zero = createValueScale([[10, 20]], [], "include-zero");
+    const log = createValueScale([[10, 100, 1000]], [], "log");
+
+    expect(zero.min).toBe(0);
+    expect(zero.toY(0)).toBe(GRAPH_BASE_HEIGHT - GRAPH_BASELINE_INSET);
+    expect(log.toY(10) - log.toY(100)).toBeCloseTo(log.toY(100) - log.toY(1000));
+    // percent changes can be negative and have no logarithm
+    expect(createValueScale([[-5, 5]], [], "log").mode).toBe("fit");
+  });
+
+  it("skips gaps when building points", () => {
+    const scale = createValueScale([[1, 2, 3]]);
+    const points = getGraphPoints([null, 2, 3], scale);
+
+    expect(points.map((point) => [point.x, point.index])).toEqual([
+      [100, 1],
+      [200, 2],
+    ]);
+    expect(toAreaPath(points)).toMatch(/^M 100,180 L 100,/);
+  });
+
+  it("finds the nearest index for a position", () => {
+    expect(getNearestIndex(0, 300, 4)).toBe(0);
+    expect(getNearestIndex(149, 300, 4)).toBe(1);
+    expect(getNearestIndex(400, 300, 4)).toBe(3);
+  });
+
+  it("lays out candles in bands of equal width", () => {
+    expect(getBandX(0, 4)).toBe(25);
+    expect(getBandX(3, 4)).toBe(175);
+    expect(getBandIndex(74, 300, 4)).toBe(0);
+    expect(getBandIndex(75, 300, 4)).toBe(1);
+    expect(getBandIndex(-5, 300, 4)).toBe(0);
+    expect(getBandIndex(400, 300, 4)).toBe(3);
+  });
+
+  it("aligns series on the union of their dates", () => {
+    const aligned = alignSeriesByDate([
+      { dates: ["2024-01-02", "2024-01-03", "2024-01-04"], values: [1, 2, 3] },
+      { dates: ["2024-01-03", "2024-01-05"], values: [10, 11] },
+    ]);
+
+    expect(aligned.dates).toEqual(["2024-01-02", "2024-01-03", "2024-01-04", "2024-01-05"]);
+    expect(aligned.values).toEqual([
+      [1, 2, 3, 3],
+      [null, 10, 10, 11],
+    ]);
+  });
+
+  it("rebases series to percent change from the first value", () => {
+    expect(rebaseToPercent([null, 50, 75, 25])).toEqual([null, 0, 50, -50]);
+  });
+});
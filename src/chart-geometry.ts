@@ -0,0 +1,214 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Geometry of the graph in its own coordinate space (the svg viewBox).
+ * Values are mapped between the top padding and the baseline inset.
+ */
+export const GRAPH_BASE_WIDTH = 200;
+export const GRAPH_BASE_HEIGHT = 180;
+export const GRAPH_BASELINE_INSET = 30;
+export const GRAPH_TOP_PADDING = 6;
+
+const graphInnerHeight = GRAPH_BASE_HEIGHT - GRAPH_BASELINE_INSET - GRAPH_TOP_PADDING;
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+  value: number;
+  index: number;
+}
+
+/**
+ * How values map to the graph height: stretched from the lowest to the highest value, with
+ * zero at the bottom or top, or logarithmic so that equal percent moves look the same
+ */
+export type ScaleMode = "fit" | "include-zero" | "log";
+
+export const scaleModes: ScaleMode[] = ["fit", "include-zero", "log"];
+
+export interface ValueScale {
+  /**
+   * The logarithmic mode falls back to fit when a value is not positive
+   */
+  mode: ScaleMode;
+  min: number;
+  max: number;
+  toY: (value: number) => number;
+}
+
+const isValue = (value: number | null | undefined): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Maps the range of all given series to the graph height. The levels widen the range, so that
+ * lines drawn at them stay visible.
+ */
+export const createValueScale = (
+  series: Array<Array<number | null>>,
+  levels: number[] = [],
+  mode: ScaleMode = "fit"
+): ValueScale => {
+  const values = [...series.flat(), ...levels].filter(isValue);
+  const lowest = values.length ? Math.min(...values) : 0;
+  const highest = values.length ? Math.max(...values) : 1;
+  const toHeight = (share: number) =>
+    GRAPH_TOP_PADDING + graphInnerHeight - share * graphInnerHeight;
+  if (mode === "log" && lowest > 0) {
+    const logMin = Math.log(lowest);
+    const logRange = Math.log(highest) - logMin || 1;
+    return {
+      mode,
+      min: lowest,
+      max: highest,
+      toY: (value) => toHeight((Math.log(value) - logMin) / logRange),
+    };
+  }
+  const min = mode === "include-zero" ? Math.min(lowest, 0) : lowest;
+  const max = mode === "include-zero" ? Math.max(highest, 0) : highest;
+  const range = max - min || 1;
+  return {
+    mode: mode === "log" ? "fit" : mode,
+    min,
+    max,
+    toY: (value) => toHeight((value - min) / range),
+  };
+};
+
+/**
+ * X position of the index-th of `count` evenly spaced points
+ */
+export const getIndexX = (index: number, count: number): number =>
+  count > 1 ? (index * GRAPH_BASE_WIDTH) / (count - 1) : 0;
+
+/**
+ * Index of the point closest to a horizontal position in a box of the given width
+ */
+export const getNearestIndex = (x: number, width: number, count: number): number => {
+  if (count < 2 || width <= 0) return 0;
+  const step = width / (count - 1);
+  return Math.max(0, Math.min(count - 1, Math.round(x / step)));
+};
+
+/**
+ * Candles are laid out in bands of equal width, so the first and last one are fully visible
+ */
+export const getBandWidth = (count: number): number =>
+  count > 0 ? GRAPH_BASE_WIDTH / count : GRAPH_BASE_WIDTH;
+
+/**
+ * X position of the center of the index-th of `count` bands
+ */
+export const getBandX = (index: number, count: number): number =>
+  (index + 0.5) * getBandWidth(count);
+
+/**
+ * Index of the band at a horizontal position in a box of the given width
+ */
+export const getBandIndex = (x: number, width: number, count: number): number => {
+  if (count < 1 || width <= 0) return 0;
+  return Math.max(0, Math.min(count - 1, Math.floor(x / (width / count))));
+};
+
+/**
+ * Points of a series, skipping the gaps
+ */
+export const getGraphPoints = (
+  values: Array<number | null>,
+  scale: ValueScale
+): GraphPoint[] =>
+  values.flatMap((value, index) =>
+    isValue(value)
+      ? [{ x: getIndexX(index, values.length), y: scale.toY(value), value, index }]
+      : []
+  );
+
+const toCurveSegments = (points: GraphPoint[]): string => {
+  let segments = "";
+  for (let i = 1; i < points.length; i++) {
+    const p0 = points[i - 1];
+    const p1 = points[i];
+    const cpX = (p0.x + p1.x) / 2;
+    segments += ` C ${cpX},${p0.y} ${cpX},${p1.y} ${p1.x},${p1.y}`;
+  }
+  return segments;
+};
+
+/**
+ * Smooth line through the points
+ */
+export const toLinePath = (points: GraphPoint[]): string =>
+  points.length < 2 ? "" : `M ${points[0].x},${points[0].y}${toCurveSegments(points)}`;
+
+/**
+ * Smooth line through the points, closed along the bottom of the graph
+ */
+export const toAreaPath = (points: GraphPoint[]): string => {
+  if (points.length < 2) return "";
+  const first = points[0];
+  const last = points[points.length - 1];
+  return (
+    `M ${first.x},${GRAPH_BASE_HEIGHT} L ${first.x},${first.y}` +
+    toCurveSegments(points) +
+    ` L ${last.x},${GRAPH_BASE_HEIGHT} Z`
+  );
+};
+
+/**
+ * The area between two lines, e.g. the upper and lower Bollinger band
+ */
+export const toBandPath = (upper: GraphPoint[], lower: GraphPoint[]): string => {
+  if (upper.length < 2 || lower.length < 2) return "";
+  const reversed = [...lower].reverse();
+  return (
+    `M ${upper[0].x},${upper[0].y}` +
+    toCurveSegments(upper) +
+    ` L ${reversed[0].x},${reversed[0].y}` +
+    toCurveSegments(reversed) +
+    " Z"
+  );
+};
+
+export interface DatedSeries {
+  dates: string[];
+  values: number[];
+}
+
+/**
+ * Aligns several series on the union of their dates. A series without a value on a date
+ * (e.g. another exchange's holiday) keeps its previous value, before its first date it has gaps.
+ */
+export const alignSeriesByDate = (
+  series: DatedSeries[]
+): { dates: string[]; values: Array<Array<number | null>> } => {
+  const dates = Array.from(new Set(series.flatMap((entry) => entry.dates))).sort();
+  const values = series.map((entry) => {
+    const byDate = new Map(entry.dates.map((date, i) => [date, entry.values[i]]));
+    let previous: number | null = null;
+    return dates.map((date) => {
+      const value = byDate.get(date);
+      if (isValue(value)) previous = value;
+      return previous;
+    });
+  });
+  return { dates, values };
+};
+
+/**
+ * Expresses a series as percent change from its first value
+ */
+export const rebaseToPercent = (values: Array<number | null>): Array<number | null> => {
+  const base = values.find(isValue);
+  if (!base) return values.map(() => null);
+  return values.map((value) => (isValue(value) ? ((value - base) / base) * 100 : null));
+};
@@ -0,0 +1,140 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React, { ReactElement, useState } from "react";
+import { TickerDetails } from "./providers";
+import { useFormatters, useMessages } from "./locale-context";
+import { useTheme } from "./theme-context";
+
+export interface CompanyInfoProps {
+  details: TickerDetails;
+}
+
+// Descriptions are cut after this many characters until expanded
+const DESCRIPTION_PREVIEW_LENGTH = 160;
+
+// Providers report exchanges by their market identifier code
+const exchangeNames: Record<string, string> = {
+  XNAS: "NASDAQ",
+  XNYS: "NYSE",
+  XASE: "NYSE American",
+  ARCX: "NYSE Arca",
+  BATS: "Cboe BZX",
+};
+
+export const getExchangeName = (exchange: string): string =>
+  exchangeNames[exchange.toUpperCase()] ?? exchange;
+
+/**
+ * The homepage as reported by the provider if it is a web address; anything else, such as a
+ * javascript: URL from a custom endpoint, is not linked
+ */
+export const toHomepageUrl = (homepage: string | undefined): string | null => {
+  if (!homepage) return null;
+  try {
+    const { protocol } = new URL(homepage);
+    return protocol === "http:" || protocol === "https:" ? homepage : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reference data of the company: exchange, market cap, shares and what it does
+ */
+export const CompanyInfo = ({ details }: CompanyInfoProps): ReactElement | null => {
+  const [expanded, setExpanded] = useState(false);
+  const { compact } = useFormatters();
+  const messages = useMessages();
+  const theme = useTheme();
+  const { exchange, marketCap, sharesOutstanding, description } = details;
+  const homepage = toHomepageUrl(details.homepage);
+
+  const facts: Array<[string, string]> = [];
+  if (exchange) facts.push([messages.exchange, getExchangeName(exchange)]);
+  if (marketCap) facts.push([messages.marketCap, compact(marketCap)]);
+  if (sharesOutstanding) facts.push([messages.shares, compact(sharesOutstanding)]);
+
+  if (!facts.length && !description && !homepage) return null;
+
+  const isLong = Boolean(description && description.length > DESCRIPTION_PREVIEW_LENGTH);
+  const shownDescription =
+    description && isLong && !expanded
+      ? `${description.slice(0, DESCRIPTION_PREVIEW_LENGTH).trimEnd()}…`
+      : description;
+
+  return (
+    <section
+      className="stockwidget-info"
+      aria-label={messages.companyInfo}
+      style={{
+        marginTop: "0.6rem",
+        fontSize: "0.8rem",
+        lineHeight: "1.4",
+        color: theme.textMuted,
+      }}
+    >
+      {facts.length > 0 && (
+        <dl
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            gap: "0.25rem 1rem",
+            margin: 0,
+          }}
+        >
+          {facts.map(([label, value]) => (
+            <div key={label} style={{ display: "flex", gap: "0.3rem" }}>
+              <dt>{label}</dt>
+              <dd style={{ margin: 0, fontWeight: 600, color: theme.text }}>{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      {shownDescription && (
+        <p style={{ margin: "0.4rem 0 0" }}>
+          {shownDescription}
+          {isLong && (
+            <button
+              type="button"
+              aria-expanded={expanded}
+              onClick={() => setExpanded((current) => !current)}
+              style={{
+                marginLeft: "0.3rem",
+                padding: 0,
+                font: "inherit",
+                fontWeight: 600,
+                color: theme.text,
+                background: "none",
+                border: "none",
+                cursor: "pointer",
+              }}
+            >
+              {expanded ? messages.showLess : messages.showMore}
+            </button>
+          )}
+        </p>
+      )}
+      {homepage && (
+        <a
+          href={homepage}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{ display: "inline-block", marginTop: "0.3rem", color: theme.text }}
+        >
+          {homepage.replace(/^https?:\/\/(www\.)?/, "").replace(/\/$/, "")}
+        </a>
+      )}
+    </section>
+  );
+};
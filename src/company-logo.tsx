@@ -0,0 +1,77 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React, { ReactElement, useState } from "react";
+
+export interface CompanyLogoProps {
+  symbol: string;
+  /**
+   * Image URLs in order of preference; blanks are skipped
+   */
+  sources: Array<string | undefined>;
+  size?: number;
+}
+
+const monogramColors = ["#2563eb", "#7c3aed", "#db2777", "#ea580c", "#0d9488", "#4f46e5"];
+
+/**
+ * The logo of a company, trying each source until one loads and ending with a monogram
+ */
+export const CompanyLogo = ({ symbol, sources, size = 24 }: CompanyLogoProps): ReactElement => {
+  const urls = sources.filter((source): source is string => Boolean(source));
+  const [failed, setFailed] = useState<string[]>([]);
+  const url = urls.find((candidate) => !failed.includes(candidate));
+
+  const style: React.CSSProperties = {
+    width: size,
+    height: size,
+    flex: "none",
+    borderRadius: "50%",
+    objectFit: "contain",
+    background: "#ffffff",
+  };
+
+  if (url) {
+    return (
+      <img
+        className="stockwidget-logo"
+        src={url}
+        alt=""
+        style={style}
+        onError={() => setFailed((current) => [...current, url])}
+      />
+    );
+  }
+
+  const colorIndex =
+    Array.from(symbol).reduce((sum, char) => sum + char.charCodeAt(0), 0) % monogramColors.length;
+  return (
+    <span
+      className="stockwidget-logo stockwidget-monogram"
+      aria-hidden="true"
+      style={{
+        ...style,
+        display: "inline-flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: monogramColors[colorIndex],
+        color: "#ffffff",
+        fontSize: size * 0.42,
+        fontWeight: 700,
+        letterSpacing: "-0.02em",
+      }}
+    >
+      {symbol.slice(0, 2).toUpperCase()}
+    </span>
+  );
+};
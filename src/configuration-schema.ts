@@ -13,6 +13,7 @@
 
 import { UiSchema } from "@rjsf/utils";
 import { JSONSchema7 } from "json-schema";
+import { en, messageKeys } from "./messages";
 
 /**
  * schema used for generation of the configuration dialog
@@ -21,21 +22,235 @@ import { JSONSchema7 } from "json-schema";
 export const configurationSchema: JSONSchema7 = {
   properties: {
     symbol: {
-      type: "string",
-      title: "symbol",
+      type: "array",
+      title: "symbols",
+      items: {
+        type: "string",
+      },
+      default: ["VNI"],
     },
     weeks: {
       type: "string",
       title: "weeks",
+      pattern: "^([1-9]|[1-9][0-9]|10[0-4])$",
+    },
+    rangepresets: {
+      type: "array",
+      title: "range presets",
+      items: {
+        type: "string",
+        enum: ["1D", "5D", "1M", "3M", "6M", "YTD", "1Y", "2Y", "5Y", "Max"],
+      },
+      uniqueItems: true,
+      default: ["5D", "1M", "3M", "6M", "YTD", "1Y"],
+    },
+    defaultrange: {
+      type: "string",
+      title: "default range",
+      enum: ["1D", "5D", "1M", "3M", "6M", "YTD", "1Y", "2Y", "5Y", "Max"],
     },
     logo: {
       type: "string",
       title: "logo",
     },
+    showinfo: {
+      type: "boolean",
+      title: "show company info",
+      default: false,
+    },
     stockgraphcolor: {
       type: "string",
       title: "stock graph color",
-    }
+    },
+    charttype: {
+      type: "string",
+      title: "chart type",
+      enum: ["area", "line", "candlestick", "ohlc-bars"],
+      default: "area",
+    },
+    showvolume: {
+      type: "boolean",
+      title: "show volume",
+      default: false,
+    },
+    showstats: {
+      type: "boolean",
+      title: "show statistics",
+      default: false,
+    },
+    showaxes: {
+      type: "boolean",
+      title: "show axes",
+      default: false,
+    },
+    gridlines: {
+      type: "boolean",
+      title: "show gridlines",
+      default: false,
+    },
+    scalemode: {
+      type: "string",
+      title: "price scale",
+      enum: ["fit", "include-zero", "log"],
+      default: "fit",
+    },
+    compare: {
+      type: "array",
+      title: "compare with",
+      items: {
+        type: "string",
+      },
+    },
+    levels: {
+      type: "array",
+      title: "reference levels",
+      items: {
+        type: "object",
+        properties: {
+          label: {
+            type: "string",
+            title: "label",
+          },
+          price: {
+            type: "number",
+            title: "price",
+          },
+          color: {
+            type: "string",
+            title: "color",
+          },
+        },
+        required: ["price"],
+      },
+    },
+    alertabove: {
+      type: "number",
+      title: "alert above",
+    },
+    alertbelow: {
+      type: "number",
+      title: "alert below",
+    },
+    indicators: {
+      type: "array",
+      title: "indicators",
+      items: {
+        type: "object",
+        properties: {
+          type: {
+            type: "string",
+            title: "indicator",
+            enum: ["sma", "ema", "bollinger"],
+            default: "sma",
+          },
+          period: {
+            type: "integer",
+            title: "period",
+            minimum: 2,
+            maximum: 200,
+            default: 20,
+          },
+          deviations: {
+            type: "number",
+            title: "band width",
+            exclusiveMinimum: 0,
+            default: 2,
+          },
+          color: {
+            type: "string",
+            title: "color",
+          },
+          linestyle: {
+            type: "string",
+            title: "line style",
+            enum: ["solid", "dashed", "dotted"],
+            default: "solid",
+          },
+        },
+        required: ["type", "period"],
+      },
+    },
+    theme: {
+      type: "string",
+      title: "theme",
+      enum: ["auto", "light", "dark"],
+      default: "auto",
+    },
+    layout: {
+      type: "string",
+      title: "layout",
+      enum: ["card", "tape"],
+      default: "card",
+    },
+    provider: {
+      type: "string",
+      title: "data provider",
+      enum: ["polygon", "alphavantage", "finnhub", "custom"],
+      default: "polygon",
+    },
+    providerendpoint: {
+      type: "string",
+      title: "custom endpoint",
+    },
+    credentialsource: {
+      type: "string",
+      title: "credentials",
+      enum: ["apikey", "integration", "proxy"],
+      default: "apikey",
+    },
+    apikey: {
+      type: "string",
+      title: "api key",
+    },
+    proxyurl: {
+      type: "string",
+      title: "proxy url",
+    },
+    integration: {
+      type: "string",
+      title: "integration",
+      enum: ["ms365", "googleWorkspace", "serviceNow", "atlassian", "box"],
+    },
+    cachettl: {
+      type: "integer",
+      title: "cache duration",
+      minimum: 0,
+      default: 300,
+    },
+    live: {
+      type: "boolean",
+      title: "live price",
+      default: false,
+    },
+    livetransport: {
+      type: "string",
+      title: "live price updates",
+      enum: ["polling", "websocket"],
+      default: "polling",
+    },
+    liveinterval: {
+      type: "integer",
+      title: "polling interval",
+      minimum: 1,
+      default: 15,
+    },
+    livesocketurl: {
+      type: "string",
+      title: "streaming url",
+    },
+    extendedhours: {
+      type: "boolean",
+      title: "extended hours price",
+      default: false,
+    },
+    labels: {
+      type: "object",
+      title: "labels",
+      // one optional field per text, showing the English default
+      properties: Object.fromEntries(
+        messageKeys.map((key) => [key, { type: "string", title: en[key] }])
+      ),
+    },
   },
 };
 
@@ -45,15 +260,117 @@ export const configurationSchema: JSONSchema7 = {
  */
 export const uiSchema: UiSchema = {
   symbol: {
-    "ui:help": "Enter the stock ticker symbol (e.g., AAPL for Apple, GOOG for Google). Defaults to dummy data if left blank or set to 'VNI'",
+    "ui:help": "Enter one or more stock ticker symbols (e.g., AAPL for Apple, GOOG for Google). Several symbols are shown as a watchlist. Defaults to dummy data if left blank or set to 'VNI'",
   },
   weeks: {
-    "ui:help": "Specify how many weeks of historical stock data to display in the graph. Maximum allowed is 104 weeks (2 years).",
+    "ui:help": "Specify how many weeks of historical stock data to display in the graph. Maximum allowed is 104 weeks (2 years). Used when no default range is selected.",
+  },
+  rangepresets: {
+    "ui:widget": "checkboxes",
+    "ui:help": "Ranges readers can switch between below the graph. Select none to hide the range buttons.",
+  },
+  defaultrange: {
+    "ui:help": "(Optional) The range shown first. Defaults to the number of weeks above if left blank.",
   },
   logo: {
     "ui:help": "(Optional) Enter the direct URL of a company logo image. This will override any logo fetched from the stock data API.",
   },
+  showinfo: {
+    "ui:help": "Show the company name, exchange, market cap and a short description from the data provider.",
+  },
   stockgraphcolor: {
     "ui:help": "Choose a color for the stock graph. (eg #000, blue) Defaults to green if left blank.",
   },
+  charttype: {
+    "ui:help": "How daily prices are drawn. 'candlestick' and 'ohlc-bars' show open, high, low and close of each day; compared symbols are always drawn as lines.",
+  },
+  showvolume: {
+    "ui:help": "Show the traded volume of each day as bars beneath the graph. Leave off for small cards.",
+  },
+  showstats: {
+    "ui:help": "Show the high, low, average close and volatility of the shown range together with the 52 week high and low. The 52 week values need one more request per symbol.",
+  },
+  showaxes: {
+    "ui:help": "Label round prices along the left edge and dates beneath the graph: hours for a day, weekdays or weeks for short ranges and months for long ones.",
+  },
+  gridlines: {
+    "ui:help": "Draw light lines at the labelled prices and dates.",
+  },
+  scalemode: {
+    "ui:help": "'fit' stretches the prices of the range to the full height, which makes small moves look large. 'include-zero' keeps zero in view to show moves in proportion. 'log' shows equal percent moves at equal heights, useful for long ranges.",
+  },
+  compare: {
+    "ui:help": "(Optional) Peer or index symbols (e.g., SPY) to plot on the same graph. All lines are shown as percent change since the start of the range.",
+  },
+  levels: {
+    "ui:help": "(Optional) Prices drawn as labelled lines, e.g. the IPO price, a strike price or a target. Only shown for a single symbol without comparisons.",
+    items: {
+      color: {
+        "ui:help": "(Optional) e.g. #f59e0b. Defaults to the muted text color.",
+      },
+    },
+  },
+  alertabove: {
+    "ui:help": "(Optional) Highlights the price when it reaches this value and dispatches a 'stockwidget-alert' event on the widget.",
+  },
+  alertbelow: {
+    "ui:help": "(Optional) Highlights the price when it falls to this value and dispatches a 'stockwidget-alert' event on the widget.",
+  },
+  indicators: {
+    "ui:help": "(Optional) Moving averages (sma, ema) or Bollinger bands drawn over the price, e.g. a 20 or 50 period SMA. Not shown while comparing symbols.",
+    items: {
+      deviations: {
+        "ui:help": "Distance of the Bollinger bands from their average in standard deviations. Only used for Bollinger bands.",
+      },
+      color: {
+        "ui:help": "(Optional) e.g. #a78bfa. Defaults to a color of its own for every indicator.",
+      },
+    },
+  },
+  theme: {
+    "ui:help": "'auto' matches the colors of the app. Choose 'light' or 'dark' if the widget sits on a background of its own.",
+  },
+  layout: {
+    "ui:help": "'card' shows the graph, or a watchlist for several symbols. 'tape' scrolls all symbols horizontally like a ticker.",
+  },
+  provider: {
+    "ui:help": "Select the market data vendor. Choose 'custom' to use your own JSON endpoint.",
+  },
+  providerendpoint: {
+    "ui:help": "Base URL of your own market data endpoint. Only used with the 'custom' provider.",
+  },
+  credentialsource: {
+    "ui:help": "Where the data provider credentials come from: an API key entered below, a token of a connected integration, or a same-origin proxy that adds the key on the server.",
+  },
+  apikey: {
+    "ui:help": "The API key of the data provider. It is visible in the page source, prefer a proxy for production use.",
+    "ui:widget": "password",
+  },
+  proxyurl: {
+    "ui:help": "Same-origin URL which forwards requests to the data provider and adds the key, e.g. /market-data/polygon",
+  },
+  integration: {
+    "ui:help": "The integration whose access token is used as the API key.",
+  },
+  cachettl: {
+    "ui:help": "How many seconds fetched stock data is reused, also across widgets and page reloads. Defaults to 300, set 0 to always fetch.",
+  },
+  live: {
+    "ui:help": "Show the current trade price and add it to the end of the graph.",
+  },
+  livetransport: {
+    "ui:help": "Poll the data provider in an interval, or keep a streaming connection open (Polygon WebSocket protocol).",
+  },
+  liveinterval: {
+    "ui:help": "Seconds between two live price requests when polling. Defaults to 15.",
+  },
+  livesocketurl: {
+    "ui:help": "(Optional) WebSocket URL speaking the Polygon protocol. Defaults to wss://socket.polygon.io/stocks",
+  },
+  extendedhours: {
+    "ui:help": "Show live trades from pre-market and after-hours trading next to the regular close, instead of adding them to the graph. Needs the live price.",
+  },
+  labels: {
+    "ui:help": "(Optional) Replace individual texts of the widget. Texts left blank are translated to the language of the page (English, German, French, Spanish or Japanese).",
+  },
 };
\ No newline at end of file
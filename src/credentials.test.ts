@@ -0,0 +1,70 @@
+import { WidgetApi } from "widget-sdk";
+import { CredentialsError, resolveCredentials, toCredentialsError } from "./credentials";
+import { MarketDataError } from "./providers";
+
+const widgetApiWith = (info: Awaited<ReturnType<WidgetApi["getIntegration"]>>) =>
+  ({ getIntegration: jest.fn().mockResolvedValue(info) }) as unknown as WidgetApi;
+
+describe("resolveCredentials", () => {
+  it("uses the configured api key", async () => {
+    await expect(resolveCredentials({ apiKey: "secret" }, null)).resolves.toEqual({ apiKey: "secret" });
+  });
+
+  it("reports a missing api key unless the provider works without one", async () => {
+    await expect(resolveCredentials({}, null)).rejects.toEqual(new CredentialsError("missing"));
+    await expect(resolveCredentials({}, null, false)).resolves.toEqual({ apiKey: undefined });
+  });
+
+  it("uses a same-origin proxy as base url", async () => {
+    await expect(resolveCredentials({ source: "proxy", proxyUrl: "/market-data/polygon/" }, null)).resolves.toEqual({
+      baseUrl: `${window.location.origin}/market-data/polygon`,
+    });
+    await expect(
+      resolveCredentials({ source: "proxy", proxyUrl: "https://elsewhere.example.com" }, null),
+    ).rejects.toEqual(new CredentialsError("invalid"));
+  });
+
+  it("uses the integration token", async () => {
+    const widgetApi = widgetApiWith({
+      status: "available",
+      enabledFeatures: [],
+      supportedFeatures: [],
+      token: { accessToken: "token", accessTokenExpiresAt: new Date(Date.now() + 60000) },
+    });
+
+    await expect(resolveCredentials({ source: "integration", integration: "ms365" }, widgetApi)).resolves.toEqual({
+      apiKey: "token",
+    });
+    expect(widgetApi.getIntegration).toHaveBeenCalledWith("ms365");
+  });
+
+  it("reports expired and signed out integrations with a sign in", async () => {
+    const signIn = jest.fn();
+    const expired = widgetApiWith({
+      status: "available",
+      enabledFeatures: [],
+      supportedFeatures: [],
+      token: { accessToken: "token", accessTokenExpiresAt: new Date(Date.now() - 60000) },
+      signIn,
+    });
+    const loggedOut = widgetApiWith({ status: "loggedOut", enabledFeatures: [], supportedFeatures: [], signIn });
+
+    const expiredError = await resolveCredentials({ source: "integration", integration: "ms365" }, expired).catch(
+      (error) => error,
+    );
+    const loggedOutError = await resolveCredentials({ source: "integration", integration: "ms365" }, loggedOut).catch(
+      (error) => error,
+    );
+
+    expect(expiredError).toMatchObject({ problem: "expired", signIn });
+    expect(loggedOutError).toMatchObject({ problem: "signedOut", signIn });
+  });
+
+  it("treats authorization failures as rejected credentials", () => {
+    expect(toCredentialsError(new MarketDataError("HTTP error! Status: 401", 401))).toEqual(
+      new CredentialsError("rejected"),
+    );
+    const other = new MarketDataError("HTTP error! Status: 500", 500);
+    expect(toCredentialsError(other)).toBe(other);
+  });
+});
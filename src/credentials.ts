@@ -0,0 +1,118 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { IntegrationType, WidgetApi } from "widget-sdk";
+import { MarketDataError, ProviderOptions } from "./providers";
+
+export type CredentialSource = "apikey" | "integration" | "proxy";
+
+export type CredentialsProblem = "missing" | "expired" | "signedOut" | "rejected" | "invalid";
+
+/**
+ * The configured attributes that decide where the provider's credentials come from
+ */
+export interface CredentialsConfig {
+  source?: string;
+  apiKey?: string;
+  proxyUrl?: string;
+  integration?: string;
+}
+
+export type Credentials = Pick<ProviderOptions, "apiKey" | "baseUrl">;
+
+const problemMessages: Record<CredentialsProblem, string> = {
+  missing: "No credentials are configured for this data provider.",
+  expired: "The data provider credentials have expired.",
+  signedOut: "Sign in to load stock data.",
+  rejected: "The data provider rejected the configured credentials.",
+  invalid: "The proxy URL has to be on the same origin as this page.",
+};
+
+/**
+ * Raised when no usable credentials are available. `signIn` is set if the host can fix it.
+ */
+export class CredentialsError extends Error {
+  public constructor(
+    public readonly problem: CredentialsProblem,
+    public readonly signIn?: () => void,
+  ) {
+    super(problemMessages[problem]);
+    this.name = "CredentialsError";
+  }
+}
+
+/**
+ * Maps authorization failures of a provider request to a CredentialsError, other errors pass through
+ */
+export const toCredentialsError = (error: unknown): unknown =>
+  error instanceof MarketDataError && (error.status === 401 || error.status === 403)
+    ? new CredentialsError("rejected")
+    : error;
+
+const resolveProxy = (proxyUrl?: string): Credentials => {
+  if (!proxyUrl) {
+    throw new CredentialsError("missing");
+  }
+  const url = new URL(proxyUrl, window.location.href);
+  if (url.origin !== window.location.origin) {
+    throw new CredentialsError("invalid");
+  }
+  return { baseUrl: url.href.replace(/\/+$/, "") };
+};
+
+const resolveIntegration = async (
+  widgetApi: WidgetApi | null,
+  integration?: string,
+): Promise<Credentials> => {
+  if (!widgetApi || !integration) {
+    throw new CredentialsError("missing");
+  }
+  const info = await widgetApi.getIntegration(integration as IntegrationType);
+  if (info.status === "loggedOut") {
+    throw new CredentialsError("signedOut", info.signIn);
+  }
+  if (info.status !== "available" || !info.token?.accessToken) {
+    throw new CredentialsError("missing");
+  }
+  const expiresAt = info.token.accessTokenExpiresAt;
+  if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+    throw new CredentialsError("expired", info.signIn);
+  }
+  return { apiKey: info.token.accessToken };
+};
+
+/**
+ * Resolves the credentials for the provider requests from the configured source.
+ * The integration's access token is used as the vendor API key.
+ *
+ * @param config the credential related attributes
+ * @param widgetApi the api of the hosting application, needed for the integration source
+ * @param required whether the provider can't work without credentials
+ */
+export const resolveCredentials = async (
+  { source = "apikey", apiKey, proxyUrl, integration }: CredentialsConfig,
+  widgetApi: WidgetApi | null,
+  required = true,
+): Promise<Credentials> => {
+  switch (source) {
+    case "proxy":
+      return resolveProxy(proxyUrl);
+    case "integration":
+      return resolveIntegration(widgetApi, integration);
+    default:
+      if (!apiKey && required) {
+        throw new CredentialsError("missing");
+      }
+      return { apiKey: apiKey || undefined };
+  }
+};
@@ -0,0 +1,46 @@
+import { OhlcvBar } from "./providers";
+import { aggregateBars, getAggregateIndices, lttbIndices } from "./downsample";
+
+const bar = (day: number, open: number, high: number, low: number, close: number): OhlcvBar => ({
+  timestamp: Date.UTC(2024, 0, day),
+  date: `2024-01-${String(day).padStart(2, "0")}`,
+  open,
+  high,
+  low,
+  close,
+  volume: 100,
+});
+
+describe("downsampling", () => {
+  it("keeps the ends and the peaks of a line", () => {
+    const values = Array.from({ length: 100 }, (_, i) => (i === 37 ? 50 : i === 71 ? -50 : 0));
+    const indices = lttbIndices(values, 10);
+
+    expect(indices).toHaveLength(10);
+    expect(indices[0]).toBe(0);
+    expect(indices[9]).toBe(99);
+    expect(indices).toEqual(expect.arrayContaining([37, 71]));
+  });
+
+  it("leaves short series alone", () => {
+    expect(lttbIndices([1, 2, 3], 10)).toEqual([0, 1, 2]);
+  });
+
+  it("merges bars into candles that keep the extremes", () => {
+    const merged = aggregateBars(
+      [bar(1, 10, 12, 9, 11), bar(2, 11, 15, 10, 14), bar(3, 14, 14, 8, 9), bar(4, 9, 10, 7, 8)],
+      2
+    );
+
+    expect(merged).toEqual([
+      { ...bar(2, 10, 15, 9, 14), volume: 200 },
+      { ...bar(4, 14, 14, 7, 8), volume: 200 },
+    ]);
+  });
+
+  it("points at the last bar of each merged group", () => {
+    expect(getAggregateIndices(4, 2)).toEqual([1, 3]);
+    expect(getAggregateIndices(5, 2)).toEqual([2, 4]);
+    expect(getAggregateIndices(3, 5)).toEqual([0, 1, 2]);
+  });
+});
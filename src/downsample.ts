@@ -0,0 +1,97 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { OhlcvBar } from "./providers";
+
+/**
+ * Picks about `threshold` indices of the values with Largest-Triangle-Three-Buckets,
+ * which keeps the peaks and troughs that give a line its shape. Values are taken as
+ * evenly spaced; the first and last one are always kept.
+ */
+export const lttbIndices = (values: number[], threshold: number): number[] => {
+  const count = values.length;
+  if (threshold >= count) return values.map((_, i) => i);
+  if (threshold < 3) return count > 1 ? [0, count - 1] : [0];
+
+  const indices = [0];
+  const bucketSize = (count - 2) / (threshold - 2);
+  let previous = 0;
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    // the average of the next bucket is the third corner of the triangles
+    const nextStart = Math.floor((bucket + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, count);
+    let averageX = 0;
+    let averageY = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      averageX += i;
+      averageY += values[i];
+    }
+    averageX /= nextEnd - nextStart;
+    averageY /= nextEnd - nextStart;
+
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+    let maxArea = -1;
+    let chosen = start;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (previous - averageX) * (values[i] - values[previous]) -
+          (previous - i) * (averageY - values[previous])
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        chosen = i;
+      }
+    }
+    indices.push(chosen);
+    previous = chosen;
+  }
+  indices.push(count - 1);
+  return indices;
+};
+
+/**
+ * Merges consecutive bars so that at most `maxCount` remain, e.g. days into weeks.
+ * Unlike picking bars, this keeps the highs and lows of every candle.
+ */
+export const aggregateBars = (bars: OhlcvBar[], maxCount: number): OhlcvBar[] => {
+  if (bars.length <= maxCount || maxCount < 1) return bars;
+  const size = Math.ceil(bars.length / maxCount);
+  const merged: OhlcvBar[] = [];
+  for (let i = 0; i < bars.length; i += size) {
+    const group = bars.slice(i, i + size);
+    const last = group[group.length - 1];
+    merged.push({
+      timestamp: last.timestamp,
+      date: last.date,
+      open: group[0].open,
+      high: Math.max(...group.map((bar) => bar.high)),
+      low: Math.min(...group.map((bar) => bar.low)),
+      close: last.close,
+      volume: group.reduce((sum, bar) => sum + bar.volume, 0),
+    });
+  }
+  return merged;
+};
+
+/**
+ * Index of the last bar of each group merged by aggregateBars, e.g. to pick values that belong
+ * to the merged bars
+ */
+export const getAggregateIndices = (count: number, maxCount: number): number[] => {
+  if (count <= maxCount || maxCount < 1) return Array.from({ length: count }, (_, i) => i);
+  const size = Math.ceil(count / maxCount);
+  return Array.from({ length: Math.ceil(count / size) }, (_, group) =>
+    Math.min((group + 1) * size, count) - 1
+  );
+};
@@ -0,0 +1,65 @@
+import { createFormatters, toCurrency, toLocale } from "./format";
+
+describe("formatting", () => {
+  it("reads the content language of the hosting application", () => {
+    expect(toLocale("de_DE")).toBe("de-DE");
+    expect(toLocale("ja_JP")).toBe("ja-JP");
+    expect(toLocale("not a locale")).toBe("en-US");
+    expect(toLocale(undefined)).toBe("en-US");
+  });
+
+  it("falls back to dollars for unknown currencies", () => {
+    expect(toCurrency("eur")).toBe("EUR");
+    expect(toCurrency("")).toBe("USD");
+    expect(toCurrency("euro")).toBe("USD");
+  });
+
+  it("formats prices in the currency of the ticker", () => {
+    const formatters = createFormatters("de-DE", "eur");
+
+    expect(formatters.price(1234.5).replace(/\s/g, " ")).toBe("1.234,50 €");
+    expect(formatters.change(-1.5).replace(/\s/g, " ")).toBe("-1,50 %");
+  });
+
+  it("writes prices with the decimals of their currency", () => {
+    const formatters = createFormatters("en-US", "jpy");
+
+    expect(formatters.price(2345.6)).toBe("¥2,346");
+    expect(formatters.price(0.5)).toBe("¥0.50");
+  });
+
+  it("adapts the precision to the price", () => {
+    const formatters = createFormatters("en-US");
+
+    expect(formatters.price(185.06)).toBe("$185.06");
+    expect(formatters.price(0.04321)).toBe("$0.0432");
+    expect(formatters.price(0)).toBe("$0.00");
+    // a difference takes the decimals of the price it belongs to
+    expect(formatters.price(0.5, 180)).toBe("$0.50");
+    expect(formatters.price(0.0012, 0.04)).toBe("$0.0012");
+    expect(formatters.change(31.25)).toBe("+31.25%");
+    expect(formatters.compact(2.9e12)).toBe("2.9T");
+    expect(formatters.percent(23.456)).toBe("23.5%");
+  });
+
+  it("formats dates for the locale", () => {
+    const formatters = createFormatters("de-DE");
+
+    expect(formatters.dateNumeric("2024-03-15T12:00:00Z")).toBe("15.03.24");
+    expect(formatters.dateShort("")).toBe("");
+    expect(formatters.axisDate("2024-03-01", "month")).toBe("Mär");
+    expect(formatters.axisDate("2024-01-02", "year")).toBe("2024");
+    expect(formatters.axisDate("2024-03-15", "day")).toBe("Fr");
+  });
+
+  it("keeps plain days on their day west of UTC", () => {
+    const formatters = createFormatters("en-US");
+
+    // the global setup runs the tests in New York
+    expect(new Date("2024-03-15").getDate()).toBe(14);
+    expect(formatters.dateShort("2024-03-15")).toBe("Mar 15");
+    expect(formatters.dateNumeric("2024-03-15")).toBe("03/15/24");
+    expect(formatters.axisDate("2024-03-15", "day")).toBe("Fri");
+    expect(formatters.dateShort("2024-03-15T18:00:00Z", true)).toBe("Fri 2:00 PM");
+  });
+});
@@ -0,0 +1,174 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DateTickUnit } from "./axis-ticks";
+
+export const DEFAULT_LOCALE = "en-US";
+export const DEFAULT_CURRENCY = "USD";
+
+/**
+ * Turns the content language of the hosting application (e.g. de_DE) into a BCP 47 locale
+ */
+export const toLocale = (contentLanguage: string | undefined): string => {
+  try {
+    return Intl.getCanonicalLocales(String(contentLanguage ?? "").replace(/_/g, "-"))[0]
+      ?? DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+};
+
+/**
+ * ISO 4217 code of a currency as reported by a provider (e.g. "usd"), or the default
+ */
+export const toCurrency = (currency: string | undefined): string => {
+  const code = String(currency ?? "").toUpperCase();
+  try {
+    new Intl.NumberFormat(DEFAULT_LOCALE, { style: "currency", currency: code });
+    return code;
+  } catch {
+    return DEFAULT_CURRENCY;
+  }
+};
+
+/**
+ * The fraction digits a currency is usually written with, e.g. 2 for USD and 0 for JPY
+ */
+export const getCurrencyDigits = (currency: string): number =>
+  new Intl.NumberFormat(DEFAULT_LOCALE, { style: "currency", currency }).resolvedOptions()
+    .maximumFractionDigits ?? 2;
+
+/**
+ * Penny stocks need two more decimals than the currency has, zero on an axis does not
+ */
+export const getPriceDigits = (price: number, currencyDigits = 2): number =>
+  price !== 0 && Math.abs(price) < 1 ? currencyDigits + 2 : currencyDigits;
+
+// Daily bars carry their day as YYYY-MM-DD, intraday ones a full timestamp
+const isPlainDay = (date: string): boolean => /^\d{4}-\d{2}-\d{2}$/.test(date);
+
+export interface Formatters {
+  /**
+   * A price, or a difference of prices with the price it belongs to as `level`, which
+   * decides the decimals
+   */
+  price: (value: number, level?: number) => string;
+  /**
+   * Percent points with sign, e.g. +1.25%
+   */
+  change: (value: number) => string;
+  /**
+   * Large numbers in short form, e.g. 2.9T for a market cap or 1.2M for volume
+   */
+  compact: (value: number) => string;
+  /**
+   * Percent without sign, e.g. a volatility
+   */
+  percent: (value: number) => string;
+  /**
+   * Day and month, or weekday and time for intraday dates
+   */
+  dateShort: (date: string, intraday?: boolean) => string;
+  dateNumeric: (date: string) => string;
+  dateTime: (date: string) => string;
+  /**
+   * Label of a date tick on the time axis, e.g. an hour, a weekday or a month
+   */
+  axisDate: (date: string, unit: DateTickUnit) => string;
+  /**
+   * Day and time of a moment in the given time zone, with the zone's abbreviation
+   */
+  zonedDateTime: (timestamp: number, timeZone: string) => string;
+}
+
+/**
+ * Number and date formatting for a locale and the currency prices are quoted in
+ */
+export const createFormatters = (locale: string, currency?: string): Formatters => {
+  const currencyCode = toCurrency(currency);
+  const currencyDigits = getCurrencyDigits(currencyCode);
+  const priceFormats = new Map<number, Intl.NumberFormat>();
+  const getPriceFormat = (digits: number) => {
+    let format = priceFormats.get(digits);
+    if (!format) {
+      format = new Intl.NumberFormat(locale, {
+        style: "currency",
+        currency: currencyCode,
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+      });
+      priceFormats.set(digits, format);
+    }
+    return format;
+  };
+  const changeFormat = new Intl.NumberFormat(locale, {
+    style: "percent",
+    signDisplay: "always",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  const percentFormat = new Intl.NumberFormat(locale, {
+    style: "percent",
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+  });
+  const compactFormat = new Intl.NumberFormat(locale, {
+    notation: "compact",
+    maximumFractionDigits: 1,
+  });
+  const formatDate = (date: string, options: Intl.DateTimeFormatOptions) => {
+    if (!date) return "";
+    const parsed = new Date(date);
+    if (Number.isNaN(parsed.getTime())) return date;
+    // plain days are midnight in UTC and must not move to the day before west of it
+    return parsed.toLocaleString(
+      locale,
+      isPlainDay(date) ? { ...options, timeZone: "UTC" } : options
+    );
+  };
+  const axisDateOptions: Record<DateTickUnit, Intl.DateTimeFormatOptions> = {
+    time: { hour: "numeric" },
+    day: { weekday: "short" },
+    week: { month: "short", day: "numeric" },
+    month: { month: "short" },
+    year: { year: "numeric" },
+  };
+
+  return {
+    price: (value, level = value) =>
+      getPriceFormat(getPriceDigits(level, currencyDigits)).format(value),
+    change: (value) => changeFormat.format(value / 100),
+    compact: (value) => compactFormat.format(value),
+    percent: (value) => percentFormat.format(value / 100),
+    dateShort: (date, intraday = false) =>
+      formatDate(
+        date,
+        intraday
+          ? { weekday: "short", hour: "numeric", minute: "2-digit" }
+          : { month: "short", day: "numeric" }
+      ),
+    dateNumeric: (date) =>
+      formatDate(date, { month: "2-digit", day: "2-digit", year: "2-digit" }),
+    dateTime: (date) => formatDate(date, { dateStyle: "medium", timeStyle: "short" }),
+    axisDate: (date, unit) => formatDate(date, axisDateOptions[unit]),
+    zonedDateTime: (timestamp, timeZone) =>
+      new Date(timestamp).toLocaleString(locale, {
+        timeZone,
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+        timeZoneName: "short",
+      }),
+  };
+};
@@ -11,26 +11,46 @@
  * limitations under the License.
  */
 
-import { screen } from "@testing-library/dom";
+import { act, screen } from "@testing-library/react";
 
 import "../dev/bootstrap";
 
 describe("Widget test", () => {
+  const nativeFetch = global.fetch;
+
   beforeAll(() => {
     document.body.innerHTML = `
         <div id="preview"></div>
         <div id="config"></div>
         `;
+    const day = 24 * 60 * 60 * 1000;
+    const respond = (body: unknown) => Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+    global.fetch = jest.fn((url: string) =>
+      url.includes("/v3/reference/")
+        ? respond({ results: { ticker: "AAPL", name: "Apple Inc." } })
+        : respond({ results: [
+          { t: Date.now() - 2 * day, o: 170, h: 171, l: 169, c: 170, v: 1 },
+          { t: Date.now() - day, o: 170, h: 173, l: 169, c: 172.5, v: 1 },
+        ] })
+    ) as jest.Mock;
+  });
+
+  afterAll(() => {
+    global.fetch = nativeFetch;
   });
 
   it("should render the widget", async () => {
     const widget = document.createElement("stock-ticker-overlay");
     widget.setAttribute("symbol", "AAPL");
-    await import("./index");
-    document.body.appendChild(widget);
+    widget.setAttribute("apikey", "key");
+    // the block and the configuration form are rendered before looking at them
+    await act(async () => {
+      await import("./index");
+      document.body.appendChild(widget);
+    });
 
-    expect(await screen.findByText(/Hello World/)).toBeInTheDocument();
-    expect(screen.getByText(/en_US/)).toBeInTheDocument();
-    expect(screen.getByLabelText('Stock Ticker')).toBeInTheDocument();
+    expect(screen.getByText("AAPL")).toBeInTheDocument();
+    expect(await screen.findByText("$172.50", { selector: ".stockwidget-latestPrice" })).toBeInTheDocument();
+    expect(screen.getByLabelText('Stock Ticker Overlay')).toBeInTheDocument();
   });
 });
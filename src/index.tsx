@@ -14,9 +14,17 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 
-import { BlockFactory, BlockDefinition, ExternalBlockDefinition, BaseBlock } from "widget-sdk";
+import {
+  BlockFactory,
+  BlockDefinition,
+  ExternalBlockDefinition,
+  BaseBlock,
+  ColorTheme,
+  WidgetApi,
+} from "widget-sdk";
 import { StockTickerOverlayProps, StockTickerOverlay } from "./stock-ticker-overlay";
 import { configurationSchema, uiSchema } from "./configuration-schema";
+import { WidgetApiContext } from "./widget-api-context";
 import icon from "../resources/stock-ticker-overlay.svg";
 import pkg from '../package.json'
 
@@ -26,15 +34,55 @@ import pkg from '../package.json'
 const widgetAttributes: string[] = [
   'symbol',
   'weeks',
+  'rangepresets',
+  'defaultrange',
   'logo',
+  'showinfo',
   'stockgraphcolor',
+  'charttype',
+  'showvolume',
+  'showstats',
+  'showaxes',
+  'gridlines',
+  'scalemode',
+  'compare',
+  'levels',
+  'alertabove',
+  'alertbelow',
+  'indicators',
+  'layout',
+  'provider',
+  'providerendpoint',
+  'credentialsource',
+  'apikey',
+  'proxyurl',
+  'integration',
+  'cachettl',
+  'live',
+  'livetransport',
+  'liveinterval',
+  'livesocketurl',
+  'extendedhours',
+  'labels',
+  'theme',
 ];
 
+/**
+ * The theme of the hosting application; hosts without one leave the widget in its default colors
+ */
+const getColorTheme = (widgetApi: WidgetApi): ColorTheme | null => {
+  try {
+    return widgetApi.getLegacyAppTheme();
+  } catch {
+    return null;
+  }
+};
+
 /**
  * This factory creates the class which is registered with the tagname in the `custom element registry`
  * Gets the parental class and a set of helper utilities provided by the hosting application.
  */
-const factory: BlockFactory = (BaseBlockClass, _widgetApi) => {
+const factory: BlockFactory = (BaseBlockClass, widgetApi) => {
   /**
    *  <stock-ticker-overlay symbol="world!"></stock-ticker-overlay>
    */
@@ -50,12 +98,17 @@ const factory: BlockFactory = (BaseBlockClass, _widgetApi) => {
       return {
         ...attrs,
         contentLanguage: this.contentLanguage,
+        colorTheme: getColorTheme(widgetApi),
       };
     }
 
     public renderBlock(container: HTMLElement): void {
       this._root ??= ReactDOM.createRoot(container);
-      this._root.render(<StockTickerOverlay {...this.props} />);
+      this._root.render(
+        <WidgetApiContext.Provider value={widgetApi}>
+          <StockTickerOverlay {...this.props} />
+        </WidgetApiContext.Provider>
+      );
     }
 
     /**
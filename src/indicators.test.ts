@@ -0,0 +1,49 @@
+import {
+  bollingerBands,
+  exponentialMovingAverage,
+  getIndicatorWarmup,
+  simpleMovingAverage,
+  toIndicators,
+} from "./indicators";
+
+describe("indicators", () => {
+  it("averages the last values of each period", () => {
+    expect(simpleMovingAverage([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it("seeds the exponential average with the simple one", () => {
+    const ema = exponentialMovingAverage([2, 4, 6, 8], 3);
+
+    expect(ema.slice(0, 3)).toEqual([null, null, 4]);
+    // alpha = 2 / (3 + 1)
+    expect(ema[3]).toBeCloseTo(0.5 * 8 + 0.5 * 4);
+  });
+
+  it("puts Bollinger bands the standard deviations around the average", () => {
+    const { values, band } = bollingerBands([1, 3, 1, 3], 2, 2);
+
+    expect(values).toEqual([null, 2, 2, 2]);
+    expect(band.upper).toEqual([null, 4, 4, 4]);
+    expect(band.lower).toEqual([null, 0, 0, 0]);
+  });
+
+  it("reads the configuration and needs history for the longest window", () => {
+    const indicators = toIndicators(
+      JSON.stringify([
+        { type: "sma", period: "50", linestyle: "dashed" },
+        { type: "ema", period: 10, color: " #f59e0b " },
+        { type: "bollinger" },
+        { type: "macd", period: 9 },
+      ])
+    );
+
+    expect(indicators).toEqual([
+      { type: "sma", period: 50, deviations: 2, color: undefined, lineStyle: "dashed" },
+      { type: "ema", period: 10, deviations: 2, color: "#f59e0b", lineStyle: "solid" },
+      { type: "bollinger", period: 20, deviations: 2, color: undefined, lineStyle: "solid" },
+    ]);
+    expect(getIndicatorWarmup(indicators)).toBe(49);
+    expect(getIndicatorWarmup([])).toBe(0);
+    expect(toIndicators("nonsense")).toEqual([]);
+  });
+});
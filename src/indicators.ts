@@ -0,0 +1,163 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Technical indicators drawn over the price: simple and exponential moving averages and
+ * Bollinger bands. Each value covers the bars up to its own, so the first period - 1 values
+ * need bars from before the shown range, see getIndicatorWarmup.
+ */
+
+export type IndicatorType = "sma" | "ema" | "bollinger";
+
+export const indicatorTypes: IndicatorType[] = ["sma", "ema", "bollinger"];
+
+export type LineStyle = "solid" | "dashed" | "dotted";
+
+export const lineStyles: LineStyle[] = ["solid", "dashed", "dotted"];
+
+export interface IndicatorConfig {
+  type: IndicatorType;
+  period: number;
+  /**
+   * Width of Bollinger bands in standard deviations
+   */
+  deviations: number;
+  color?: string;
+  lineStyle: LineStyle;
+}
+
+export const DEFAULT_INDICATOR_PERIOD = 20;
+export const MAX_INDICATOR_PERIOD = 200;
+export const DEFAULT_BAND_DEVIATIONS = 2;
+
+export interface IndicatorValues {
+  values: Array<number | null>;
+  /**
+   * The band around the values, for Bollinger bands
+   */
+  band?: {
+    upper: Array<number | null>;
+    lower: Array<number | null>;
+  };
+}
+
+/**
+ * Reads the indicators of the configuration, an array or its JSON, skipping unknown types
+ */
+export const toIndicators = (value: unknown): IndicatorConfig[] => {
+  let indicators = value;
+  if (typeof value === "string") {
+    try {
+      indicators = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(indicators)) return [];
+  return indicators.flatMap((entry) => {
+    const type = indicatorTypes.find((candidate) => candidate === entry?.type);
+    if (!type) return [];
+    const period = Math.round(Number(entry.period));
+    const deviations = Number(entry.deviations);
+    const color = typeof entry.color === "string" ? entry.color.trim() : "";
+    return [
+      {
+        type,
+        period: Number.isFinite(period)
+          ? Math.min(Math.max(period, 2), MAX_INDICATOR_PERIOD)
+          : DEFAULT_INDICATOR_PERIOD,
+        deviations: deviations > 0 ? deviations : DEFAULT_BAND_DEVIATIONS,
+        color: color || undefined,
+        lineStyle: lineStyles.find((style) => style === entry.linestyle) ?? "solid",
+      },
+    ];
+  });
+};
+
+/**
+ * How many bars before the shown range the indicators need. An exponential average depends on
+ * all bars before it; after three periods the seed weighs less than half a percent.
+ */
+export const getIndicatorWarmup = (indicators: IndicatorConfig[]): number =>
+  Math.max(
+    0,
+    ...indicators.map((indicator) =>
+      indicator.type === "ema" ? indicator.period * 3 : indicator.period - 1
+    )
+  );
+
+/**
+ * Mean of the last `period` values at each index
+ */
+export const simpleMovingAverage = (values: number[], period: number): Array<number | null> => {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    return i >= period - 1 ? sum / period : null;
+  });
+};
+
+/**
+ * Exponential moving average, seeded with the simple average of the first period
+ */
+export const exponentialMovingAverage = (
+  values: number[],
+  period: number
+): Array<number | null> => {
+  const alpha = 2 / (period + 1);
+  let average: number | null = null;
+  return simpleMovingAverage(values, period).map((seed, i) => {
+    if (seed === null) return null;
+    average = average === null ? seed : alpha * values[i] + (1 - alpha) * average;
+    return average;
+  });
+};
+
+/**
+ * The simple moving average with bands the given standard deviations above and below it
+ */
+export const bollingerBands = (
+  values: number[],
+  period: number,
+  deviations: number
+): Required<IndicatorValues> => {
+  const middle = simpleMovingAverage(values, period);
+  const widths = middle.map((mean, i) => {
+    if (mean === null) return null;
+    const window = values.slice(i - period + 1, i + 1);
+    const variance = window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period;
+    return Math.sqrt(variance) * deviations;
+  });
+  return {
+    values: middle,
+    band: {
+      upper: middle.map((mean, i) => (mean === null ? null : mean + (widths[i] as number))),
+      lower: middle.map((mean, i) => (mean === null ? null : mean - (widths[i] as number))),
+    },
+  };
+};
+
+export const computeIndicator = (
+  indicator: IndicatorConfig,
+  values: number[]
+): IndicatorValues => {
+  switch (indicator.type) {
+    case "sma":
+      return { values: simpleMovingAverage(values, indicator.period) };
+    case "ema":
+      return { values: exponentialMovingAverage(values, indicator.period) };
+    case "bollinger":
+      return bollingerBands(values, indicator.period, indicator.deviations);
+  }
+};
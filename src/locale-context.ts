@@ -0,0 +1,38 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createContext, useContext, useMemo } from "react";
+import { createFormatters, DEFAULT_LOCALE, Formatters } from "./format";
+import { en, Messages } from "./messages";
+
+/**
+ * Hands the locale of the content down to the components, used for formatting
+ */
+export const LocaleContext = createContext<string>(DEFAULT_LOCALE);
+
+export const useLocale = (): string => useContext(LocaleContext);
+
+/**
+ * Formatters for the current locale and the given currency
+ */
+export const useFormatters = (currency?: string): Formatters => {
+  const locale = useLocale();
+  return useMemo(() => createFormatters(locale, currency), [locale, currency]);
+};
+
+/**
+ * Hands the texts for the locale, with the configured overrides, down to the components
+ */
+export const MessagesContext = createContext<Messages>(en);
+
+export const useMessages = (): Messages => useContext(MessagesContext);
@@ -0,0 +1,108 @@
+import {
+  ExchangeCalendar,
+  fromZonedTime,
+  getBarEnd,
+  getExchangeCalendar,
+  getLastRegularClose,
+  getMarketSession,
+  getUsMarketHolidays,
+  registerExchangeCalendar,
+} from "./market-calendar";
+
+const nyse = getExchangeCalendar("XNYS") as ExchangeCalendar;
+
+describe("market calendar", () => {
+  it("finds calendars by MIC and by exchange name", () => {
+    expect(nyse.timeZone).toBe("America/New_York");
+    expect(getExchangeCalendar("NASDAQ NMS - GLOBAL MARKET")).toBe(nyse);
+    expect(getExchangeCalendar("xnas")).toBe(nyse);
+    expect(getExchangeCalendar("XETR")).toBeNull();
+    expect(getExchangeCalendar(undefined)).toBeNull();
+  });
+
+  it("lists the NYSE holidays and half-days of a year", () => {
+    const { holidays, earlyCloses } = getUsMarketHolidays(2024);
+
+    expect([...holidays].sort()).toEqual([
+      "2024-01-01",
+      "2024-01-15",
+      "2024-02-19",
+      "2024-03-29",
+      "2024-05-27",
+      "2024-06-19",
+      "2024-07-04",
+      "2024-09-02",
+      "2024-11-28",
+      "2024-12-25",
+    ]);
+    expect([...earlyCloses].sort()).toEqual(["2024-07-03", "2024-11-29", "2024-12-24"]);
+  });
+
+  it("moves weekend holidays to the nearest weekday", () => {
+    // Independence Day 2026 is a Saturday, New Year's Day 2022 too, Christmas 2022 a Sunday
+    expect(getUsMarketHolidays(2026).holidays).toContain("2026-07-03");
+    expect(getUsMarketHolidays(2026).earlyCloses).not.toContain("2026-07-03");
+    expect(getUsMarketHolidays(2021).holidays).not.toContain("2021-12-31");
+    expect(getUsMarketHolidays(2022).holidays).toContain("2022-12-26");
+    expect(getUsMarketHolidays(2025).holidays).toContain("2025-01-09");
+  });
+
+  it("converts wall clock times across daylight saving time", () => {
+    expect(new Date(fromZonedTime("2024-03-08", 9 * 60 + 30, nyse.timeZone)).toISOString()).toBe(
+      "2024-03-08T14:30:00.000Z"
+    );
+    expect(new Date(fromZonedTime("2024-03-11", 9 * 60 + 30, nyse.timeZone)).toISOString()).toBe(
+      "2024-03-11T13:30:00.000Z"
+    );
+  });
+
+  it("tells the session of a moment", () => {
+    const at = (iso: string) => getMarketSession(nyse, Date.parse(iso));
+
+    expect(at("2024-03-15T07:59:00Z")).toBe("closed");
+    expect(at("2024-03-15T08:00:00Z")).toBe("pre");
+    expect(at("2024-03-15T13:30:00Z")).toBe("open");
+    expect(at("2024-03-15T20:00:00Z")).toBe("after");
+    expect(at("2024-03-16T00:00:00Z")).toBe("closed");
+    expect(at("2024-03-16T15:00:00Z")).toBe("closed");
+    expect(at("2024-03-29T15:00:00Z")).toBe("closed");
+    // half-day after Thanksgiving
+    expect(at("2024-11-29T18:30:00Z")).toBe("after");
+  });
+
+  it("finds the latest regular close", () => {
+    const monday = Date.parse("2024-04-01T12:00:00Z");
+
+    // Good Friday closes the market, so the last close was on Thursday
+    expect(new Date(getLastRegularClose(nyse, monday)).toISOString()).toBe("2024-03-28T20:00:00.000Z");
+  });
+
+  it("ends daily bars at the close of their session", () => {
+    const bar = { timestamp: Date.parse("2024-12-24T05:00:00Z"), date: "2024-12-24", open: 1, high: 1, low: 1, close: 1, volume: 0 };
+
+    expect(new Date(getBarEnd(nyse, bar, "day", Date.parse("2025-01-02T00:00:00Z"))).toISOString()).toBe(
+      "2024-12-24T18:00:00.000Z"
+    );
+    expect(getBarEnd(nyse, bar, "minute", Date.parse("2025-01-02T00:00:00Z"))).toBe(bar.timestamp + 60_000);
+    expect(getBarEnd(nyse, bar, "day", bar.timestamp + 1)).toBe(bar.timestamp + 1);
+  });
+
+  it("uses registered calendars of other exchanges", () => {
+    const xetra: ExchangeCalendar = {
+      exchanges: ["XETR"],
+      timeZone: "Europe/Berlin",
+      preMarketOpen: 8 * 60,
+      open: 9 * 60,
+      close: 17 * 60 + 30,
+      afterHoursClose: 22 * 60,
+      earlyClose: 14 * 60,
+      earlyAfterHoursClose: 14 * 60,
+      isHoliday: (date) => date.endsWith("-12-25"),
+      isEarlyClose: () => false,
+    };
+    registerExchangeCalendar(xetra);
+
+    expect(getExchangeCalendar("XETR")).toBe(xetra);
+    expect(getMarketSession(xetra, Date.parse("2024-03-15T08:30:00Z"))).toBe("open");
+  });
+});
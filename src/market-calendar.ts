@@ -0,0 +1,301 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Trading hours and holidays of exchanges, to tell whether a price is from the current session.
+ * The US equity markets are built in; other exchanges can be added with registerExchangeCalendar.
+ */
+
+import { Granularity, OhlcvBar } from "./providers";
+
+export type MarketSession = "pre" | "open" | "after" | "closed";
+
+/**
+ * Trading hours of an exchange as minutes after midnight in its time zone
+ */
+export interface ExchangeCalendar {
+  /**
+   * Codes and names providers use for the exchange, e.g. its MIC
+   */
+  exchanges: string[];
+  timeZone: string;
+  preMarketOpen: number;
+  open: number;
+  close: number;
+  afterHoursClose: number;
+  /**
+   * Closing time on half-days and how long extended trading continues after it
+   */
+  earlyClose: number;
+  earlyAfterHoursClose: number;
+  /**
+   * Days without trading besides weekends, as YYYY-MM-DD
+   */
+  isHoliday: (date: string) => boolean;
+  isEarlyClose: (date: string) => boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toIsoDay = (year: number, month: number, day: number): string =>
+  new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+
+const getWeekday = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * The nth given weekday of a month; a negative n counts from the end of the month
+ */
+const nthWeekday = (year: number, month: number, weekday: number, n: number): string => {
+  if (n > 0) {
+    const first = toIsoDay(year, month, 1);
+    return addDays(first, ((weekday - getWeekday(first) + 7) % 7) + (n - 1) * 7);
+  }
+  const last = toIsoDay(year, month + 1, 0);
+  return addDays(last, -((getWeekday(last) - weekday + 7) % 7) + (n + 1) * 7);
+};
+
+/**
+ * Easter Sunday of the Gregorian calendar (anonymous algorithm)
+ */
+const getEaster = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toIsoDay(year, month, day);
+};
+
+/**
+ * Holidays on a Saturday are taken on the Friday before, those on a Sunday on the Monday after
+ */
+const observed = (date: string): string => {
+  const weekday = getWeekday(date);
+  if (weekday === 6) return addDays(date, -1);
+  if (weekday === 0) return addDays(date, 1);
+  return date;
+};
+
+// One-off closures, e.g. national days of mourning
+const usSpecialClosures = ["2012-10-29", "2012-10-30", "2018-12-05", "2025-01-09"];
+
+interface HolidayYear {
+  holidays: Set<string>;
+  earlyCloses: Set<string>;
+}
+
+const usHolidayYears = new Map<number, HolidayYear>();
+
+/**
+ * NYSE and NASDAQ holidays and half-days of a year, following the NYSE holiday rules
+ */
+export const getUsMarketHolidays = (year: number): HolidayYear => {
+  const cached = usHolidayYears.get(year);
+  if (cached) return cached;
+
+  const newYear = toIsoDay(year, 1, 1);
+  const holidays = [
+    // a New Year's Day on a Saturday is not taken on the last trading day of the year before
+    ...(getWeekday(newYear) === 6 ? [] : [observed(newYear)]),
+    nthWeekday(year, 1, 1, 3),
+    nthWeekday(year, 2, 1, 3),
+    addDays(getEaster(year), -2),
+    nthWeekday(year, 5, 1, -1),
+    ...(year >= 2022 ? [observed(toIsoDay(year, 6, 19))] : []),
+    observed(toIsoDay(year, 7, 4)),
+    nthWeekday(year, 9, 1, 1),
+    nthWeekday(year, 11, 4, 4),
+    observed(toIsoDay(year, 12, 25)),
+    ...usSpecialClosures.filter((date) => date.startsWith(`${year}-`)),
+  ];
+
+  // the day before Independence Day and Christmas closes early when it is a Monday to Thursday
+  const earlyCloses = [toIsoDay(year, 7, 3), toIsoDay(year, 12, 24)].filter((date) => {
+    const weekday = getWeekday(date);
+    return weekday >= 1 && weekday <= 4;
+  });
+  earlyCloses.push(addDays(nthWeekday(year, 11, 4, 4), 1));
+
+  const result = { holidays: new Set(holidays), earlyCloses: new Set(earlyCloses) };
+  usHolidayYears.set(year, result);
+  return result;
+};
+
+const usEquities: ExchangeCalendar = {
+  exchanges: [
+    "XNYS",
+    "XNAS",
+    "XASE",
+    "ARCX",
+    "BATS",
+    "NYSE",
+    "NASDAQ",
+    "AMEX",
+    "NYSE ARCA",
+  ],
+  timeZone: "America/New_York",
+  preMarketOpen: 4 * 60,
+  open: 9 * 60 + 30,
+  close: 16 * 60,
+  afterHoursClose: 20 * 60,
+  earlyClose: 13 * 60,
+  earlyAfterHoursClose: 17 * 60,
+  isHoliday: (date) => getUsMarketHolidays(Number(date.slice(0, 4))).holidays.has(date),
+  isEarlyClose: (date) => getUsMarketHolidays(Number(date.slice(0, 4))).earlyCloses.has(date),
+};
+
+const calendars: ExchangeCalendar[] = [usEquities];
+
+/**
+ * Adds the calendar of another exchange; it takes precedence over calendars added before
+ */
+export const registerExchangeCalendar = (calendar: ExchangeCalendar): void => {
+  calendars.unshift(calendar);
+};
+
+/**
+ * The calendar of the exchange a provider reports, e.g. "XNAS" or "NASDAQ NMS - GLOBAL MARKET".
+ * Returns null for exchanges without a calendar.
+ */
+export const getExchangeCalendar = (exchange: string | undefined): ExchangeCalendar | null => {
+  if (!exchange) return null;
+  const name = exchange.trim().toUpperCase();
+  return (
+    calendars.find((calendar) =>
+      calendar.exchanges.some((code) => name === code || name.startsWith(`${code} `))
+    ) ?? null
+  );
+};
+
+interface ZonedTime {
+  date: string;
+  minutes: number;
+}
+
+const zonedFormats = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Day and minutes after midnight of a moment in the given time zone
+ */
+export const getZonedTime = (timestamp: number, timeZone: string): ZonedTime => {
+  let format = zonedFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    zonedFormats.set(timeZone, format);
+  }
+  const parts = Object.fromEntries(
+    format.formatToParts(timestamp).map((part) => [part.type, part.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+};
+
+/**
+ * The moment a wall clock time of the given day shows in the time zone
+ */
+export const fromZonedTime = (date: string, minutes: number, timeZone: string): number => {
+  const wallTime = Date.parse(`${date}T00:00:00Z`) + minutes * 60_000;
+  const offsetAt = (timestamp: number) => {
+    const zoned = getZonedTime(timestamp, timeZone);
+    return Date.parse(`${zoned.date}T00:00:00Z`) + zoned.minutes * 60_000 - timestamp;
+  };
+  // the offset at the guess is off by an hour close to daylight saving changes, the second pass fixes that
+  const guess = wallTime - offsetAt(wallTime);
+  return wallTime - offsetAt(guess);
+};
+
+export const isTradingDay = (calendar: ExchangeCalendar, date: string): boolean => {
+  const weekday = getWeekday(date);
+  return weekday !== 0 && weekday !== 6 && !calendar.isHoliday(date);
+};
+
+/**
+ * The trading session at the given moment
+ */
+export const getMarketSession = (calendar: ExchangeCalendar, timestamp: number): MarketSession => {
+  const { date, minutes } = getZonedTime(timestamp, calendar.timeZone);
+  if (!isTradingDay(calendar, date)) return "closed";
+  const early = calendar.isEarlyClose(date);
+  const close = early ? calendar.earlyClose : calendar.close;
+  const afterHoursClose = early ? calendar.earlyAfterHoursClose : calendar.afterHoursClose;
+  if (minutes < calendar.preMarketOpen) return "closed";
+  if (minutes < calendar.open) return "pre";
+  if (minutes < close) return "open";
+  if (minutes < afterHoursClose) return "after";
+  return "closed";
+};
+
+/**
+ * The end of the latest regular session that closed before the given moment
+ */
+export const getLastRegularClose = (calendar: ExchangeCalendar, timestamp: number): number => {
+  let { date } = getZonedTime(timestamp, calendar.timeZone);
+  // long weekends and holidays never add up to more than a few days
+  for (let i = 0; i < 10; i++, date = addDays(date, -1)) {
+    if (!isTradingDay(calendar, date)) continue;
+    const close = fromZonedTime(
+      date,
+      calendar.isEarlyClose(date) ? calendar.earlyClose : calendar.close,
+      calendar.timeZone
+    );
+    if (close <= timestamp) return close;
+  }
+  return timestamp;
+};
+
+/**
+ * When the prices of a bar were final: the end of an intraday bar, or the close of the last session
+ * of a daily or weekly bar. Bars that are still running end at the given moment.
+ */
+export const getBarEnd = (
+  calendar: ExchangeCalendar,
+  bar: OhlcvBar,
+  granularity: Granularity,
+  now: number
+): number => {
+  let end: number;
+  if (granularity === "minute" || granularity === "hour") {
+    end = bar.timestamp + (granularity === "minute" ? 60_000 : 60 * 60_000);
+  } else {
+    // weekly bars start on Monday
+    const lastDay = granularity === "week" ? addDays(bar.date, 4) : bar.date;
+    end = fromZonedTime(
+      lastDay,
+      calendar.isEarlyClose(lastDay) ? calendar.earlyClose : calendar.close,
+      calendar.timeZone
+    );
+  }
+  return Math.min(end, now);
+};
@@ -0,0 +1,111 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React, { ReactElement } from "react";
+import { MarketSession } from "./market-calendar";
+import { useFormatters, useMessages } from "./locale-context";
+import { formatMessage, MessageKey } from "./messages";
+import { useTheme } from "./theme-context";
+
+const sessionMessages: Record<MarketSession, MessageKey> = {
+  pre: "marketPre",
+  open: "marketOpen",
+  after: "marketAfter",
+  closed: "marketClosed",
+};
+
+export interface ExtendedHoursPrice {
+  session: "pre" | "after";
+  price: number;
+  /**
+   * Percent change from the regular close
+   */
+  change: number | null;
+}
+
+interface MarketStatusProps {
+  session: MarketSession;
+  /**
+   * When the shown price was last updated, shown in the time zone of the exchange
+   */
+  updatedAt: number | null;
+  timeZone: string;
+  extended: ExtendedHoursPrice | null;
+  currency?: string;
+}
+
+/**
+ * Whether the exchange is trading, how current the price is and the extended hours price
+ */
+export const MarketStatus = ({
+  session,
+  updatedAt,
+  timeZone,
+  extended,
+  currency,
+}: MarketStatusProps): ReactElement => {
+  const formatters = useFormatters(currency);
+  const messages = useMessages();
+  const theme = useTheme();
+
+  return (
+    <div
+      className="stockwidget-marketStatus"
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        alignItems: "center",
+        gap: "0.2rem 0.5rem",
+        fontSize: "0.75rem",
+        color: theme.textMuted,
+      }}
+    >
+      <span style={{ display: "inline-flex", alignItems: "center", gap: "0.3rem" }}>
+        <span
+          aria-hidden="true"
+          style={{
+            width: "0.45rem",
+            height: "0.45rem",
+            borderRadius: "50%",
+            background: session === "open" ? theme.up : "none",
+            border: `1px solid ${session === "open" ? theme.up : theme.textMuted}`,
+          }}
+        />
+        <span className="stockwidget-session" style={{ color: theme.text }}>
+          {messages[sessionMessages[session]]}
+        </span>
+      </span>
+      {updatedAt !== null && (
+        <span>
+          {formatMessage(messages.updatedAt, {
+            time: formatters.zonedDateTime(updatedAt, timeZone),
+          })}
+        </span>
+      )}
+      {extended && (
+        <span className="stockwidget-extendedPrice" style={{ fontVariantNumeric: "tabular-nums" }}>
+          {messages[sessionMessages[extended.session]]}{" "}
+          <span style={{ color: theme.text, fontWeight: 600 }}>
+            {formatters.price(extended.price)}
+          </span>
+          {extended.change !== null && (
+            <span style={{ color: extended.change >= 0 ? theme.up : theme.down }}>
+              {" "}
+              {formatters.change(extended.change)}
+            </span>
+          )}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Messages } from "./en";
+
+export const de: Messages = {
+  loading: "Daten werden geladen...",
+  since: "seit {date}",
+  sinceStart: "seit Beginn",
+  signIn: "Anmelden",
+  credentialsMissing: "Für diesen Datenanbieter sind keine Zugangsdaten konfiguriert.",
+  credentialsExpired: "Die Zugangsdaten des Datenanbieters sind abgelaufen.",
+  credentialsSignedOut: "Melde dich an, um Kursdaten zu laden.",
+  credentialsRejected: "Der Datenanbieter hat die konfigurierten Zugangsdaten abgelehnt.",
+  credentialsInvalid: "Die Proxy-URL muss auf derselben Domain wie diese Seite liegen.",
+  providerMisconfigured: "Der Datenanbieter ist nicht richtig konfiguriert.",
+  range: "Zeitraum",
+  companyInfo: "Unternehmensinformationen",
+  exchange: "Börse",
+  marketCap: "Marktkapitalisierung",
+  shares: "Aktien",
+  showMore: "Mehr",
+  showLess: "Weniger",
+  volume: "Vol.",
+  open: "E",
+  high: "H",
+  low: "T",
+  close: "S",
+  chartLabel: "Kursverlauf von {symbol}",
+  chartInstructions: "Mit den Pfeiltasten, Pos1 und Ende die Kurse vorlesen. Mit gedrückter Umschalttaste einen Zeitraum auswählen und mit der Eingabetaste vergrößern.",
+  date: "Datum",
+  price: "Kurs",
+  openPrice: "Eröffnung",
+  highPrice: "Hoch",
+  lowPrice: "Tief",
+  closePrice: "Schluss",
+  volumeFull: "Volumen",
+  tapeLabel: "Aktienkurse: {symbols}",
+  loadFailed: "Die Kurse konnten nicht geladen werden.",
+  retry: "Erneut versuchen",
+  asOf: "Stand {time}",
+  demoData: "Demodaten",
+  marketPre: "Vorbörslich",
+  marketOpen: "Markt geöffnet",
+  marketAfter: "Nachbörslich",
+  marketClosed: "Markt geschlossen",
+  updatedAt: "Aktualisiert {time}",
+  alertUpper: "Obere Alarmschwelle",
+  alertLower: "Untere Alarmschwelle",
+  alertAbove: "Über {price}",
+  alertBelow: "Unter {price}",
+  indicatorSma: "GD {period}",
+  indicatorEma: "EMA {period}",
+  indicatorBollinger: "Bollinger {period}",
+  statistics: "Kennzahlen des Zeitraums",
+  rangeHigh: "Hoch im Zeitraum",
+  rangeLow: "Tief im Zeitraum",
+  averageClose: "Ø Schluss",
+  volatility: "Volatilität",
+  yearHigh: "52-W-Hoch",
+  yearLow: "52-W-Tief",
+  highestPrice: "Höchstkurs",
+  lowestPrice: "Tiefstkurs",
+  selectionChange: "{change} vom {start} bis {end}",
+  zoomIn: "Vergrößern",
+  resetZoom: "Zoom zurücksetzen",
+};
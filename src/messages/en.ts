@@ -0,0 +1,81 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * English texts, which are also the fallback for missing languages and the reference for the
+ * other bundles. Placeholders in braces are filled in by `formatMessage`.
+ */
+export const en = {
+  loading: "Loading data...",
+  since: "since {date}",
+  sinceStart: "since start",
+  signIn: "Sign in",
+  credentialsMissing: "No credentials are configured for this data provider.",
+  credentialsExpired: "The data provider credentials have expired.",
+  credentialsSignedOut: "Sign in to load stock data.",
+  credentialsRejected: "The data provider rejected the configured credentials.",
+  credentialsInvalid: "The proxy URL has to be on the same origin as this page.",
+  providerMisconfigured: "The data provider is not configured correctly.",
+  range: "Range",
+  companyInfo: "Company information",
+  exchange: "Exchange",
+  marketCap: "Market cap",
+  shares: "Shares",
+  showMore: "More",
+  showLess: "Less",
+  volume: "Vol",
+  open: "O",
+  high: "H",
+  low: "L",
+  close: "C",
+  chartLabel: "Price chart of {symbol}",
+  chartInstructions: "Use the arrow keys, Home and End to read the prices. Hold Shift to select a span and press Enter to zoom in.",
+  date: "Date",
+  price: "Price",
+  openPrice: "Open",
+  highPrice: "High",
+  lowPrice: "Low",
+  closePrice: "Close",
+  volumeFull: "Volume",
+  tapeLabel: "Stock prices: {symbols}",
+  loadFailed: "Prices could not be loaded.",
+  retry: "Retry",
+  asOf: "As of {time}",
+  demoData: "Demo data",
+  marketPre: "Pre-market",
+  marketOpen: "Market open",
+  marketAfter: "After hours",
+  marketClosed: "Market closed",
+  updatedAt: "Updated {time}",
+  alertUpper: "Upper alert",
+  alertLower: "Lower alert",
+  alertAbove: "Above {price}",
+  alertBelow: "Below {price}",
+  indicatorSma: "SMA {period}",
+  indicatorEma: "EMA {period}",
+  indicatorBollinger: "Bollinger {period}",
+  statistics: "Range statistics",
+  rangeHigh: "Range high",
+  rangeLow: "Range low",
+  averageClose: "Avg. close",
+  volatility: "Volatility",
+  yearHigh: "52-wk high",
+  yearLow: "52-wk low",
+  highestPrice: "Highest price",
+  lowestPrice: "Lowest price",
+  selectionChange: "{change} from {start} to {end}",
+  zoomIn: "Zoom in",
+  resetZoom: "Reset zoom",
+};
+
+export type Messages = Record<keyof typeof en, string>;
@@ -0,0 +1,77 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Messages } from "./en";
+
+export const es: Messages = {
+  loading: "Cargando datos...",
+  since: "desde el {date}",
+  sinceStart: "desde el inicio",
+  signIn: "Iniciar sesión",
+  credentialsMissing: "No hay credenciales configuradas para este proveedor de datos.",
+  credentialsExpired: "Las credenciales del proveedor de datos han caducado.",
+  credentialsSignedOut: "Inicia sesión para cargar las cotizaciones.",
+  credentialsRejected: "El proveedor de datos rechazó las credenciales configuradas.",
+  credentialsInvalid: "La URL del proxy debe tener el mismo origen que esta página.",
+  providerMisconfigured: "El proveedor de datos no está configurado correctamente.",
+  range: "Periodo",
+  companyInfo: "Información de la empresa",
+  exchange: "Bolsa",
+  marketCap: "Capitalización",
+  shares: "Acciones",
+  showMore: "Más",
+  showLess: "Menos",
+  volume: "Vol.",
+  open: "A",
+  high: "Máx",
+  low: "Mín",
+  close: "C",
+  chartLabel: "Gráfico de cotización de {symbol}",
+  chartInstructions: "Usa las flechas, Inicio y Fin para leer las cotizaciones. Mantén Mayús para seleccionar un periodo y pulsa Intro para ampliar.",
+  date: "Fecha",
+  price: "Precio",
+  openPrice: "Apertura",
+  highPrice: "Máximo",
+  lowPrice: "Mínimo",
+  closePrice: "Cierre",
+  volumeFull: "Volumen",
+  tapeLabel: "Cotizaciones: {symbols}",
+  loadFailed: "No se pudieron cargar las cotizaciones.",
+  retry: "Reintentar",
+  asOf: "A fecha de {time}",
+  demoData: "Datos de demostración",
+  marketPre: "Preapertura",
+  marketOpen: "Mercado abierto",
+  marketAfter: "Después del cierre",
+  marketClosed: "Mercado cerrado",
+  updatedAt: "Actualizado {time}",
+  alertUpper: "Alerta superior",
+  alertLower: "Alerta inferior",
+  alertAbove: "Por encima de {price}",
+  alertBelow: "Por debajo de {price}",
+  indicatorSma: "MMS {period}",
+  indicatorEma: "MME {period}",
+  indicatorBollinger: "Bollinger {period}",
+  statistics: "Estadísticas del periodo",
+  rangeHigh: "Máximo",
+  rangeLow: "Mínimo",
+  averageClose: "Cierre medio",
+  volatility: "Volatilidad",
+  yearHigh: "Máx. 52 sem.",
+  yearLow: "Mín. 52 sem.",
+  highestPrice: "Precio máximo",
+  lowestPrice: "Precio mínimo",
+  selectionChange: "{change} del {start} al {end}",
+  zoomIn: "Ampliar",
+  resetZoom: "Restablecer zoom",
+};
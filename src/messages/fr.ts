@@ -0,0 +1,77 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Messages } from "./en";
+
+export const fr: Messages = {
+  loading: "Chargement des données...",
+  since: "depuis le {date}",
+  sinceStart: "depuis le début",
+  signIn: "Se connecter",
+  credentialsMissing: "Aucun identifiant n’est configuré pour ce fournisseur de données.",
+  credentialsExpired: "Les identifiants du fournisseur de données ont expiré.",
+  credentialsSignedOut: "Connectez-vous pour charger les cours.",
+  credentialsRejected: "Le fournisseur de données a refusé les identifiants configurés.",
+  credentialsInvalid: "L’URL du proxy doit avoir la même origine que cette page.",
+  providerMisconfigured: "Le fournisseur de données n’est pas configuré correctement.",
+  range: "Période",
+  companyInfo: "Informations sur l’entreprise",
+  exchange: "Place boursière",
+  marketCap: "Capitalisation",
+  shares: "Actions",
+  showMore: "Plus",
+  showLess: "Moins",
+  volume: "Vol.",
+  open: "O",
+  high: "H",
+  low: "B",
+  close: "C",
+  chartLabel: "Graphique du cours de {symbol}",
+  chartInstructions: "Utilisez les flèches, Début et Fin pour lire les cours. Maintenez Maj pour sélectionner une période et appuyez sur Entrée pour zoomer.",
+  date: "Date",
+  price: "Cours",
+  openPrice: "Ouverture",
+  highPrice: "Plus haut",
+  lowPrice: "Plus bas",
+  closePrice: "Clôture",
+  volumeFull: "Volume",
+  tapeLabel: "Cours des actions : {symbols}",
+  loadFailed: "Impossible de charger les cours.",
+  retry: "Réessayer",
+  asOf: "Au {time}",
+  demoData: "Données de démonstration",
+  marketPre: "Pré-ouverture",
+  marketOpen: "Marché ouvert",
+  marketAfter: "Après-clôture",
+  marketClosed: "Marché fermé",
+  updatedAt: "Mis à jour {time}",
+  alertUpper: "Alerte haute",
+  alertLower: "Alerte basse",
+  alertAbove: "Au-dessus de {price}",
+  alertBelow: "En dessous de {price}",
+  indicatorSma: "MMS {period}",
+  indicatorEma: "MME {period}",
+  indicatorBollinger: "Bollinger {period}",
+  statistics: "Statistiques de la période",
+  rangeHigh: "Plus haut",
+  rangeLow: "Plus bas",
+  averageClose: "Clôture moy.",
+  volatility: "Volatilité",
+  yearHigh: "Plus haut 52 sem.",
+  yearLow: "Plus bas 52 sem.",
+  highestPrice: "Cours le plus haut",
+  lowestPrice: "Cours le plus bas",
+  selectionChange: "{change} du {start} au {end}",
+  zoomIn: "Zoomer",
+  resetZoom: "Réinitialiser le zoom",
+};
@@ -0,0 +1,62 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { de } from "./de";
+import { en, Messages } from "./en";
+import { es } from "./es";
+import { fr } from "./fr";
+import { ja } from "./ja";
+
+export { en };
+export type { Messages };
+export type MessageKey = keyof Messages;
+
+const bundles: Record<string, Messages> = { en, de, fr, es, ja };
+
+export const messageKeys = Object.keys(en) as MessageKey[];
+
+/**
+ * Reads the label overrides of the configuration, an object or its JSON, keeping known keys only
+ */
+export const toMessageOverrides = (value: unknown): Partial<Messages> => {
+  let overrides = value;
+  if (typeof value === "string") {
+    try {
+      overrides = JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  if (!overrides || typeof overrides !== "object") return {};
+  return Object.fromEntries(
+    Object.entries(overrides).filter(
+      ([key, text]) =>
+        messageKeys.includes(key as MessageKey) && typeof text === "string" && text.trim() !== ""
+    )
+  );
+};
+
+/**
+ * The texts for a locale such as de-DE, falling back to English, with the overrides applied
+ */
+export const getMessages = (locale: string, overrides: Partial<Messages> = {}): Messages => ({
+  ...en,
+  ...bundles[locale.split("-")[0].toLowerCase()],
+  ...overrides,
+});
+
+/**
+ * Fills the placeholders of a text, e.g. {date}
+ */
+export const formatMessage = (message: string, values: Record<string, string>): string =>
+  message.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
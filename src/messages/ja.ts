@@ -0,0 +1,77 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Messages } from "./en";
+
+export const ja: Messages = {
+  loading: "データを読み込んでいます...",
+  since: "{date}以降",
+  sinceStart: "開始以降",
+  signIn: "サインイン",
+  credentialsMissing: "このデータプロバイダーの認証情報が設定されていません。",
+  credentialsExpired: "データプロバイダーの認証情報の有効期限が切れています。",
+  credentialsSignedOut: "株価データを読み込むにはサインインしてください。",
+  credentialsRejected: "データプロバイダーが設定された認証情報を拒否しました。",
+  credentialsInvalid: "プロキシURLはこのページと同じオリジンである必要があります。",
+  providerMisconfigured: "データプロバイダーが正しく設定されていません。",
+  range: "期間",
+  companyInfo: "企業情報",
+  exchange: "取引所",
+  marketCap: "時価総額",
+  shares: "発行済株式数",
+  showMore: "もっと見る",
+  showLess: "閉じる",
+  volume: "出来高",
+  open: "始値",
+  high: "高値",
+  low: "安値",
+  close: "終値",
+  chartLabel: "{symbol}の株価チャート",
+  chartInstructions: "矢印キー、Home、Endで株価を読み上げます。Shiftキーを押しながら期間を選択し、Enterキーで拡大します。",
+  date: "日付",
+  price: "株価",
+  openPrice: "始値",
+  highPrice: "高値",
+  lowPrice: "安値",
+  closePrice: "終値",
+  volumeFull: "出来高",
+  tapeLabel: "株価: {symbols}",
+  loadFailed: "株価を読み込めませんでした。",
+  retry: "再試行",
+  asOf: "{time} 時点",
+  demoData: "デモデータ",
+  marketPre: "プレマーケット",
+  marketOpen: "取引中",
+  marketAfter: "時間外取引",
+  marketClosed: "取引終了",
+  updatedAt: "{time} 更新",
+  alertUpper: "上限アラート",
+  alertLower: "下限アラート",
+  alertAbove: "{price} 以上",
+  alertBelow: "{price} 以下",
+  indicatorSma: "単純移動平均 {period}",
+  indicatorEma: "指数移動平均 {period}",
+  indicatorBollinger: "ボリンジャー {period}",
+  statistics: "期間の統計",
+  rangeHigh: "期間高値",
+  rangeLow: "期間安値",
+  averageClose: "平均終値",
+  volatility: "ボラティリティ",
+  yearHigh: "52週高値",
+  yearLow: "52週安値",
+  highestPrice: "最高値",
+  lowestPrice: "最安値",
+  selectionChange: "{start}から{end}まで {change}",
+  zoomIn: "拡大",
+  resetZoom: "拡大をリセット",
+};
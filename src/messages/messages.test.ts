@@ -0,0 +1,25 @@
+import { formatMessage, getMessages, toMessageOverrides } from "./index";
+
+describe("messages", () => {
+  it("picks the bundle of the language and falls back to English", () => {
+    expect(getMessages("de-DE").loading).toBe("Daten werden geladen...");
+    expect(getMessages("ja-JP").signIn).toBe("サインイン");
+    expect(getMessages("pt-BR").loading).toBe("Loading data...");
+  });
+
+  it("applies the overrides on top of the bundle", () => {
+    const overrides = toMessageOverrides('{"signIn": "Log on", "sinceStart": " ", "unknown": "x"}');
+
+    expect(overrides).toEqual({ signIn: "Log on" });
+    expect(getMessages("fr-FR", overrides)).toMatchObject({
+      signIn: "Log on",
+      sinceStart: "depuis le début",
+    });
+    expect(toMessageOverrides("not json")).toEqual({});
+  });
+
+  it("fills in placeholders", () => {
+    expect(formatMessage("since {date}", { date: "03/15/24" })).toBe("since 03/15/24");
+    expect(formatMessage("since {date}", {})).toBe("since {date}");
+  });
+});
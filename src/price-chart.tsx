@@ -0,0 +1,1258 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React, { ReactElement, useEffect, useId, useMemo, useRef, useState } from "react";
+import { useContainerSize } from "./useContainerSize";
+import { OhlcvBar } from "./providers";
+import { useFormatters, useMessages } from "./locale-context";
+import { formatMessage } from "./messages";
+import { useTheme } from "./theme-context";
+import {
+  createValueScale,
+  getBandIndex,
+  getBandWidth,
+  getBandX,
+  getGraphPoints,
+  getIndexX,
+  getNearestIndex,
+  GraphPoint,
+  GRAPH_BASE_HEIGHT,
+  GRAPH_BASE_WIDTH,
+  ScaleMode,
+  toAreaPath,
+  toBandPath,
+  toLinePath,
+  ValueScale,
+} from "./chart-geometry";
+import { LineStyle } from "./indicators";
+import { getExtremes } from "./range-stats";
+import { getDateTicks, getValueTicks } from "./axis-ticks";
+
+export interface ChartSeries {
+  id: string;
+  label: string;
+  color: string;
+  values: Array<number | null>;
+}
+
+/**
+ * A labelled horizontal line at a value, e.g. a reference price or an alert threshold
+ */
+export interface ChartLevel {
+  id: string;
+  label: string;
+  value: number;
+  color: string;
+  dashed?: boolean;
+  /**
+   * Drawn bolder, e.g. while the price is beyond an alert threshold
+   */
+  highlighted?: boolean;
+}
+
+/**
+ * A line drawn over the price, e.g. a moving average, optionally with a band around it
+ */
+export interface ChartOverlay {
+  id: string;
+  label: string;
+  color: string;
+  lineStyle?: LineStyle;
+  values: Array<number | null>;
+  band?: {
+    upper: Array<number | null>;
+    lower: Array<number | null>;
+  };
+}
+
+// a stable default, the geometry is memoized on the overlays
+const noOverlays: ChartOverlay[] = [];
+
+const dashArrays: Record<LineStyle, string | undefined> = {
+  solid: undefined,
+  dashed: "5 3",
+  dotted: "1 3",
+};
+
+export type ChartType = "area" | "line" | "candlestick" | "ohlc-bars";
+
+export const chartTypes: ChartType[] = ["area", "line", "candlestick", "ohlc-bars"];
+
+// Height of the price area's viewBox; the baseline inset below it stays hidden
+const GRAPH_VIEWBOX_HEIGHT = 160;
+
+// Radius of the high and low markers in pixels
+const EXTREME_RADIUS = 2.5;
+
+// Sideways movement in pixels before a press turns from a tap into scrubbing, or a click into
+// a selection
+const TAP_SLOP = 6;
+
+// Least space in pixels per labelled tick on the value and the time axis
+const VALUE_TICK_SPACING = 40;
+const DATE_TICK_SPACING = 80;
+
+// The volume strip has its own box below the price area
+const VOLUME_STRIP_HEIGHT = 36;
+const VOLUME_BASE_HEIGHT = 40;
+
+export interface PriceChartProps {
+  dates: string[];
+  /**
+   * The first series is the primary one and gets the filled area
+   */
+  series: ChartSeries[];
+  chartType?: ChartType;
+  /**
+   * Daily bars matching the dates, needed for the candlestick and OHLC bar types and the volume
+   */
+  bars?: OhlcvBar[];
+  showVolume?: boolean;
+  levels?: ChartLevel[];
+  /**
+   * Drawn over the series and listed in the tooltip, matching the dates like the series
+   */
+  overlays?: ChartOverlay[];
+  /**
+   * Marks the highest and lowest price of the primary series
+   */
+  showExtremes?: boolean;
+  /**
+   * Labels round prices along the left edge and dates beneath the graph
+   */
+  axes?: boolean;
+  gridlines?: boolean;
+  scaleMode?: ScaleMode;
+  /**
+   * The values are percent changes since the range start, as when comparing
+   */
+  percentValues?: boolean;
+  /**
+   * Shows only the days between the dates of a selection; without it there is no zoom button
+   */
+  onZoom?: (start: string, end: string) => void;
+  zoomed?: boolean;
+  onResetZoom?: () => void;
+  height: number;
+  /**
+   * Accessible name of the chart and caption of its data table
+   */
+  label: string;
+  /**
+   * Formats a value, or a difference of values with the value it belongs to as `level`
+   */
+  formatValue: (value: number, level?: number) => string;
+  formatDate: (date: string) => string;
+}
+
+// Hides content visually but keeps it for screen readers
+export const visuallyHidden: React.CSSProperties = {
+  position: "absolute",
+  width: "1px",
+  height: "1px",
+  padding: 0,
+  margin: "-1px",
+  overflow: "hidden",
+  clip: "rect(0, 0, 0, 0)",
+  whiteSpace: "nowrap",
+  border: 0,
+};
+
+// Keeps labels of points at the edges inside the graph
+const getLabelShift = (x: number): string =>
+  x < 20 ? "0%" : x > GRAPH_BASE_WIDTH - 20 ? "-100%" : "-50%";
+
+interface Drag {
+  pointerId: number;
+  startX: number;
+  startIndex: number;
+  endIndex: number;
+  moved: boolean;
+}
+
+/**
+ * Days picked by dragging the mouse or with the shift key, in the order they were picked
+ */
+interface Selection {
+  start: number;
+  end: number;
+}
+
+interface Extreme {
+  kind: "high" | "low";
+  value: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * The highest and lowest price: at the wicks of candles, otherwise on the line
+ */
+const findExtremes = (
+  candleBars: OhlcvBar[] | null,
+  values: Array<number | null>,
+  points: GraphPoint[],
+  scale: ValueScale
+): Extreme[] => {
+  if (candleBars) {
+    const found = getExtremes(
+      candleBars.map((bar) => bar.high),
+      candleBars.map((bar) => bar.low)
+    );
+    if (!found) return [];
+    const high = candleBars[found.highIndex].high;
+    const low = candleBars[found.lowIndex].low;
+    const count = candleBars.length;
+    return [
+      { kind: "high", value: high, x: getBandX(found.highIndex, count), y: scale.toY(high) },
+      { kind: "low", value: low, x: getBandX(found.lowIndex, count), y: scale.toY(low) },
+    ];
+  }
+  const found = getExtremes(values);
+  if (!found) return [];
+  return (["high", "low"] as const).flatMap((kind) => {
+    const index = kind === "high" ? found.highIndex : found.lowIndex;
+    const point = points.find((candidate) => candidate.index === index);
+    return point ? [{ kind, value: point.value, x: point.x, y: point.y }] : [];
+  });
+};
+
+/**
+ * The graph of one or more series sharing the same dates, with hover tooltip.
+ * Keyboard users move through the days with the arrow keys, Home and End; screen readers
+ * get the announced values and a data table instead.
+ */
+export const PriceChart = ({
+  dates,
+  series,
+  chartType = "area",
+  bars,
+  showVolume = false,
+  levels = [],
+  overlays = noOverlays,
+  showExtremes = false,
+  axes = false,
+  gridlines = false,
+  scaleMode = "fit",
+  percentValues = false,
+  onZoom,
+  zoomed = false,
+  onResetZoom,
+  height,
+  label,
+  formatValue,
+  formatDate,
+}: PriceChartProps): ReactElement => {
+  const [graphRowRef, graphRowSize] = useContainerSize<HTMLDivElement>();
+  const [isGraphHover, setIsGraphHover] = useState(false);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const [tooltip, setTooltip] = useState<{ x: number; y: number } | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  // a tapped day keeps its tooltip until the next tap or until the chart loses focus
+  const [pinned, setPinned] = useState(false);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const gradientId = useId();
+  const { compact, axisDate, change: formatChange } = useFormatters();
+  const messages = useMessages();
+  const theme = useTheme();
+
+  const count = dates.length;
+  // indices of a selection point to other days once the range changes or is zoomed
+  const firstDate = dates[0];
+  useEffect(() => {
+    setSelection(null);
+  }, [firstDate]);
+  const span =
+    selection && selection.start !== selection.end
+      ? {
+          from: Math.min(selection.start, selection.end),
+          to: Math.min(Math.max(selection.start, selection.end), count - 1),
+        }
+      : null;
+  // without bars for every date there is nothing to draw candles from
+  const candleBars =
+    (chartType === "candlestick" || chartType === "ohlc-bars") &&
+    bars &&
+    bars.length === count
+      ? bars
+      : null;
+  // hovering re-renders, the geometry only changes with the data
+  const levelValues = levels.map((level) => level.value).join(",");
+  const { scale, seriesPoints, overlayPoints } = useMemo(() => {
+    const levelScaleValues = levelValues ? levelValues.split(",").map(Number) : [];
+    const overlayValues = overlays.flatMap((overlay) =>
+      overlay.band ? [overlay.values, overlay.band.upper, overlay.band.lower] : [overlay.values]
+    );
+    const valueScale = candleBars
+      ? createValueScale(
+          [candleBars.map((bar) => bar.high), candleBars.map((bar) => bar.low), ...overlayValues],
+          levelScaleValues,
+          scaleMode
+        )
+      : createValueScale(
+          [...series.map((entry) => entry.values), ...overlayValues],
+          levelScaleValues,
+          scaleMode
+        );
+    return {
+      scale: valueScale,
+      seriesPoints: series.map((entry) => getGraphPoints(entry.values, valueScale)),
+      overlayPoints: overlays.map((overlay) => ({
+        line: getGraphPoints(overlay.values, valueScale),
+        band: overlay.band && {
+          upper: getGraphPoints(overlay.band.upper, valueScale),
+          lower: getGraphPoints(overlay.band.lower, valueScale),
+        },
+      })),
+    };
+  }, [candleBars, series, overlays, levelValues, scaleMode]);
+  const primary = series[0];
+  const primaryPoints = seriesPoints[0] ?? [];
+  const graphColor = primary?.color ?? theme.up;
+  const bandWidth = getBandWidth(count);
+  const volumeBars = showVolume && bars && bars.length === count ? bars : null;
+  const maxVolume = volumeBars ? Math.max(...volumeBars.map((bar) => bar.volume)) : 0;
+  const hoveredBar = candleBars && hoveredIndex !== null ? candleBars[hoveredIndex] : null;
+
+  const graphRowStyle: React.CSSProperties = {
+    width: "100%",
+    marginTop: "0.4rem",
+    position: "relative",
+  };
+
+  const svgStyle: React.CSSProperties = {
+    marginTop: "0px",
+    // vertical swipes still scroll the page, sideways ones scrub through the days
+    touchAction: "pan-y",
+    userSelect: "none",
+    WebkitTapHighlightColor: "transparent",
+    transition: "transform 160ms ease, filter 160ms ease",
+    transform: isGraphHover ? "translateY(-2px)" : "translateY(0)",
+    filter: isGraphHover ? "drop-shadow(0 6px 12px rgba(0,0,0,0.12))" : "none",
+  };
+
+  const brushButtonStyle: React.CSSProperties = {
+    font: "inherit",
+    fontWeight: 600,
+    lineHeight: "1.2",
+    padding: "0.15rem 0.5rem",
+    border: "none",
+    borderRadius: "6px",
+    cursor: "pointer",
+    color: theme.text,
+    background: theme.subtle,
+  };
+
+  const hoverRadius = 3;
+  const graphScaleX = graphRowSize.width
+    ? graphRowSize.width / GRAPH_BASE_WIDTH
+    : 1;
+  const graphScaleY = GRAPH_BASE_HEIGHT
+    ? height / GRAPH_BASE_HEIGHT
+    : 1;
+  const hoverRadiusX = hoverRadius / graphScaleX;
+  // keep about a pixel between volume bars at any width
+  const volumeGap = Math.min(1 / graphScaleX, bandWidth / 2);
+  const hoverRadiusY = hoverRadius / graphScaleY;
+
+  const hasTicks = axes || gridlines;
+  const valueTicks = hasTicks
+    ? getValueTicks(scale, Math.max(2, Math.floor(height / VALUE_TICK_SPACING)))
+    : [];
+  const dateTicks = hasTicks
+    ? getDateTicks(
+        dates,
+        Math.max(2, Math.floor((graphRowSize.width || 320) / DATE_TICK_SPACING))
+      )
+    : [];
+  // line charts have their points on the edges, candles in the middle of their band
+  const getTickX = (index: number) =>
+    candleBars ? getBandX(index, count) : getIndexX(index, count);
+
+  const extremes = showExtremes
+    ? findExtremes(candleBars, primary?.values ?? [], primaryPoints, scale)
+    : [];
+
+  /**
+   * The values of a day as a sentence, for the live region
+   */
+  const describeIndex = (index: number): string => {
+    const bar = candleBars?.[index];
+    const values = bar
+      ? [
+          `${messages.openPrice} ${formatValue(bar.open)}`,
+          `${messages.highPrice} ${formatValue(bar.high)}`,
+          `${messages.lowPrice} ${formatValue(bar.low)}`,
+          `${messages.closePrice} ${formatValue(bar.close)}`,
+        ]
+      : series.flatMap((entry) => {
+          const value = entry.values[index];
+          if (value === null || value === undefined) return [];
+          return [series.length > 1 ? `${entry.label} ${formatValue(value)}` : formatValue(value)];
+        });
+    const overlayValues = overlays.flatMap((overlay) => {
+      const value = overlay.values[index];
+      return value === null || value === undefined
+        ? []
+        : [`${overlay.label} ${formatValue(value)}`];
+    });
+    return `${formatDate(dates[index])}: ${[...values, ...overlayValues].join(", ")}`;
+  };
+
+  const showIndex = (index: number, rect: DOMRect) => {
+    setHoveredIndex(index);
+    if (candleBars) {
+      setTooltip({
+        x: (getBandX(index, count) / GRAPH_BASE_WIDTH) * rect.width,
+        y: (scale.toY(candleBars[index].high) / GRAPH_BASE_HEIGHT) * rect.height,
+      });
+      return;
+    }
+    // anchor the tooltip on the primary series, or the highest point of that day
+    const anchor =
+      primaryPoints.find((point) => point.index === index) ??
+      seriesPoints
+        .flatMap((points) => points.filter((point) => point.index === index))
+        .sort((a, b) => a.y - b.y)[0];
+    setTooltip(
+      anchor
+        ? {
+            x: (anchor.x / GRAPH_BASE_WIDTH) * rect.width,
+            y: (anchor.y / GRAPH_BASE_HEIGHT) * rect.height,
+          }
+        : null
+    );
+  };
+
+  const hideIndex = () => {
+    setHoveredIndex(null);
+    setTooltip(null);
+    setPinned(false);
+  };
+
+  /**
+   * The day under a pointer: the nearest point, or the band of the candle
+   */
+  const getPointerIndex = (event: React.PointerEvent<SVGSVGElement>): number => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    return candleBars
+      ? getBandIndex(x, rect.width, count)
+      : getNearestIndex(x, rect.width, count);
+  };
+
+  const showPointer = (event: React.PointerEvent<SVGSVGElement>): number => {
+    const index = getPointerIndex(event);
+    showIndex(index, event.currentTarget.getBoundingClientRect());
+    return index;
+  };
+
+  /**
+   * Absolute and percent change between two days, e.g. "+$12.40 (+12.40%) from Mar 3 to Apr 18"
+   */
+  const describeSelection = (start: number, end: number): string => {
+    const from = Math.min(start, end);
+    const to = Math.max(start, end);
+    const first = primary?.values[from];
+    const last = primary?.values[to];
+    if (first === null || first === undefined || last === null || last === undefined) return "";
+    const difference = last - first;
+    const change = percentValues
+      ? formatChange(((100 + last) / (100 + first) - 1) * 100)
+      : `${difference > 0 ? "+" : ""}${formatValue(difference, first)} (${formatChange(
+          first ? (difference / first) * 100 : 0
+        )})`;
+    return formatMessage(messages.selectionChange, {
+      change,
+      start: formatDate(dates[from]),
+      end: formatDate(dates[to]),
+    });
+  };
+
+  const zoomToSelection = () => {
+    if (!span || !onZoom) return;
+    onZoom(dates[span.from], dates[span.to]);
+    setSelection(null);
+    hideIndex();
+  };
+
+  const hoveredValues =
+    hoveredIndex === null
+      ? []
+      : series.flatMap((entry) => {
+          const value = entry.values[hoveredIndex];
+          return value === null || value === undefined ? [] : [{ entry, value }];
+        });
+  const hoveredOverlays =
+    hoveredIndex === null
+      ? []
+      : overlays.flatMap((overlay) => {
+          const value = overlay.values[hoveredIndex];
+          return value === null || value === undefined ? [] : [{ entry: overlay, value }];
+        });
+
+  return (
+    <div
+      ref={graphRowRef}
+      className="stockwidget-graphRow"
+      style={graphRowStyle}
+    >
+      {count > 1 && (
+        <svg
+          className="stockwidget-chart"
+          width="100%"
+          height={height}
+          viewBox={`0 0 ${GRAPH_BASE_WIDTH} ${GRAPH_VIEWBOX_HEIGHT}`}
+          preserveAspectRatio="none"
+          style={{ ...svgStyle, display: "block" }}
+          role="application"
+          aria-roledescription="chart"
+          aria-label={label}
+          aria-describedby={`${gradientId}-instructions`}
+          tabIndex={0}
+          onPointerEnter={(event) => {
+            if (event.pointerType === "mouse") setIsGraphHover(true);
+          }}
+          onPointerLeave={(event) => {
+            if (event.pointerType !== "mouse") return;
+            setIsGraphHover(false);
+            hideIndex();
+          }}
+          onPointerDown={(event) => {
+            if (event.pointerType === "mouse" && event.button !== 0) return;
+            const index = getPointerIndex(event);
+            dragRef.current = {
+              pointerId: event.pointerId,
+              startX: event.clientX,
+              startIndex: index,
+              endIndex: index,
+              moved: false,
+            };
+          }}
+          onPointerMove={(event) => {
+            const drag = dragRef.current;
+            const isDrag = drag !== null && drag.pointerId === event.pointerId;
+            if (event.pointerType === "mouse") {
+              setPinned(false);
+              const index = showPointer(event);
+              if (!drag || !isDrag) return;
+              if (!drag.moved && Math.abs(event.clientX - drag.startX) < TAP_SLOP) return;
+              // dragging the mouse selects the days between the pressed and the current one
+              if (!drag.moved) event.currentTarget.setPointerCapture?.(event.pointerId);
+              drag.moved = true;
+              drag.endIndex = index;
+              setSelection({ start: drag.startIndex, end: index });
+              return;
+            }
+            if (!drag || !isDrag) return;
+            if (!drag.moved) {
+              if (Math.abs(event.clientX - drag.startX) < TAP_SLOP) return;
+              // keep the finger on the chart even when it drifts off its edges
+              drag.moved = true;
+              event.currentTarget.setPointerCapture?.(event.pointerId);
+              setPinned(false);
+            }
+            showPointer(event);
+          }}
+          onPointerUp={(event) => {
+            const drag = dragRef.current;
+            if (!drag || drag.pointerId !== event.pointerId) return;
+            dragRef.current = null;
+            if (event.pointerType === "mouse") {
+              if (drag.moved) {
+                setAnnouncement(describeSelection(drag.startIndex, drag.endIndex));
+              } else if (span && (drag.startIndex < span.from || drag.startIndex > span.to)) {
+                // a click beside the selection lets go of it, one within keeps it for a zoom
+                setSelection(null);
+              }
+              return;
+            }
+            if (drag.moved) {
+              hideIndex();
+              return;
+            }
+            const previous = pinned ? hoveredIndex : null;
+            const index = showPointer(event);
+            if (index === previous) {
+              hideIndex();
+              return;
+            }
+            setPinned(true);
+            setAnnouncement(describeIndex(index));
+          }}
+          // the browser took over to scroll the page
+          onPointerCancel={() => {
+            dragRef.current = null;
+            if (!pinned) hideIndex();
+          }}
+          onDoubleClick={zoomToSelection}
+          onKeyDown={(event) => {
+            const last = count - 1;
+            const current = hoveredIndex ?? last;
+            const targets: Record<string, number> = {
+              ArrowLeft: hoveredIndex === null ? last : Math.max(current - 1, 0),
+              ArrowRight: hoveredIndex === null ? last : Math.min(current + 1, last),
+              Home: 0,
+              End: last,
+            };
+            if (event.key === "Escape") {
+              hideIndex();
+              setSelection(null);
+              return;
+            }
+            if (event.key === "Enter" && span && onZoom) {
+              event.preventDefault();
+              zoomToSelection();
+              return;
+            }
+            if (!(event.key in targets)) return;
+            event.preventDefault();
+            const index = targets[event.key];
+            showIndex(index, event.currentTarget.getBoundingClientRect());
+            if (event.shiftKey) {
+              // the selection grows from the day that was read before shift was held
+              const anchor = selection?.start ?? current;
+              setSelection({ start: anchor, end: index });
+              setAnnouncement(
+                anchor === index ? describeIndex(index) : describeSelection(anchor, index)
+              );
+              return;
+            }
+            setAnnouncement(describeIndex(index));
+          }}
+          onBlur={hideIndex}
+        >
+          <defs>
+            <filter
+              id={`${gradientId}-glow`}
+              x="-30%"
+              y="-30%"
+              width="160%"
+              height="160%"
+            >
+              <feGaussianBlur in="SourceGraphic" stdDeviation="0.8" result="blur" />
+              <feMerge>
+                <feMergeNode in="blur" />
+                <feMergeNode in="SourceGraphic" />
+              </feMerge>
+            </filter>
+            <linearGradient id={gradientId} x1="0%" y1="0%" x2="100%" y2="0%">
+              <stop
+                offset="0%"
+                stopColor={graphColor}
+                stopOpacity={isGraphHover ? 0.4 : 0.26}
+              />
+              <stop
+                offset="60%"
+                stopColor={graphColor}
+                stopOpacity={isGraphHover ? 0.6 : 0.42}
+              />
+              <stop
+                offset="100%"
+                stopColor={graphColor}
+                stopOpacity={isGraphHover ? 0.8 : 0.64}
+              />
+            </linearGradient>
+          </defs>
+          {gridlines && (
+            <g
+              className="stockwidget-grid"
+              stroke={theme.text}
+              strokeOpacity={0.12}
+              strokeWidth={1}
+            >
+              {valueTicks.map((tick) => (
+                <line
+                  key={`value-${tick}`}
+                  x1={0}
+                  x2={GRAPH_BASE_WIDTH}
+                  y1={scale.toY(tick)}
+                  y2={scale.toY(tick)}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+              {dateTicks.map((tick) => (
+                <line
+                  key={`date-${tick.index}`}
+                  x1={getTickX(tick.index)}
+                  x2={getTickX(tick.index)}
+                  y1={0}
+                  y2={GRAPH_VIEWBOX_HEIGHT}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+            </g>
+          )}
+          {span && (
+            <rect
+              className="stockwidget-selection"
+              // candles select their whole bands, points the space between them
+              x={candleBars ? span.from * bandWidth : getIndexX(span.from, count)}
+              y={0}
+              width={
+                candleBars
+                  ? (span.to - span.from + 1) * bandWidth
+                  : getIndexX(span.to, count) - getIndexX(span.from, count)
+              }
+              height={GRAPH_VIEWBOX_HEIGHT}
+              fill={graphColor}
+              fillOpacity={0.15}
+            />
+          )}
+          {levels.map((level) => (
+            <line
+              key={level.id}
+              className="stockwidget-level"
+              x1={0}
+              x2={GRAPH_BASE_WIDTH}
+              y1={scale.toY(level.value)}
+              y2={scale.toY(level.value)}
+              stroke={level.color}
+              strokeWidth={level.highlighted ? 2 : 1}
+              strokeDasharray={level.dashed ? "4 3" : undefined}
+              strokeOpacity={level.highlighted ? 1 : 0.7}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {candleBars && hoveredIndex !== null && (
+            <rect
+              x={hoveredIndex * bandWidth}
+              y={0}
+              width={bandWidth}
+              height={GRAPH_BASE_HEIGHT}
+              fill={graphColor}
+              fillOpacity={0.12}
+            />
+          )}
+          {candleBars &&
+            candleBars.map((bar, i) => {
+              const x = getBandX(i, count);
+              const color = bar.close >= bar.open ? theme.up : theme.down;
+              const openY = scale.toY(bar.open);
+              const closeY = scale.toY(bar.close);
+              const tickWidth = bandWidth * 0.35;
+              return chartType === "candlestick" ? (
+                <g key={bar.timestamp} className="stockwidget-candle" stroke={color}>
+                  <line
+                    x1={x}
+                    x2={x}
+                    y1={scale.toY(bar.high)}
+                    y2={scale.toY(bar.low)}
+                    strokeWidth={1}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                  <rect
+                    x={x - tickWidth}
+                    y={Math.min(openY, closeY)}
+                    width={tickWidth * 2}
+                    // a doji still gets a visible body
+                    height={Math.max(Math.abs(closeY - openY), 0.8)}
+                    fill={color}
+                    strokeWidth={0}
+                  />
+                </g>
+              ) : (
+                <g
+                  key={bar.timestamp}
+                  className="stockwidget-ohlc-bar"
+                  stroke={color}
+                  strokeWidth={1.5}
+                >
+                  <line
+                    x1={x}
+                    x2={x}
+                    y1={scale.toY(bar.high)}
+                    y2={scale.toY(bar.low)}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                  <line
+                    x1={x - tickWidth}
+                    x2={x}
+                    y1={openY}
+                    y2={openY}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                  <line
+                    x1={x}
+                    x2={x + tickWidth}
+                    y1={closeY}
+                    y2={closeY}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </g>
+              );
+            })}
+          {!candleBars && chartType === "area" && (
+            <path
+              d={toAreaPath(primaryPoints)}
+              fill={`url(#${gradientId})`}
+            />
+          )}
+          {!candleBars && series
+            .map((entry, i) => (
+              <path
+                key={entry.id}
+                d={toLinePath(seriesPoints[i])}
+                stroke={entry.color}
+                strokeWidth={i === 0 ? 2 : 1.5}
+                fill="none"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                vectorEffect="non-scaling-stroke"
+                filter={i === 0 ? `url(#${gradientId}-glow)` : undefined}
+              />
+            ))
+            // draw the primary series on top
+            .reverse()}
+          {overlays.map((overlay, i) => (
+            <g key={overlay.id} className="stockwidget-indicator">
+              {overlayPoints[i].band && (
+                <path
+                  d={toBandPath(
+                    overlayPoints[i].band?.upper ?? [],
+                    overlayPoints[i].band?.lower ?? []
+                  )}
+                  fill={overlay.color}
+                  fillOpacity={0.1}
+                  stroke="none"
+                />
+              )}
+              <path
+                d={toLinePath(overlayPoints[i].line)}
+                stroke={overlay.color}
+                strokeWidth={1.25}
+                strokeDasharray={dashArrays[overlay.lineStyle ?? "solid"]}
+                fill="none"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                vectorEffect="non-scaling-stroke"
+              />
+            </g>
+          ))}
+          {!candleBars && hoveredIndex !== null &&
+            seriesPoints.map((points, i) => {
+              const point = points.find((candidate) => candidate.index === hoveredIndex);
+              if (!point) return null;
+              return (
+                <ellipse
+                  key={series[i].id}
+                  cx={point.x}
+                  cy={point.y}
+                  rx={hoverRadiusX}
+                  ry={hoverRadiusY}
+                  fill={i === 0 ? theme.inverse : series[i].color}
+                />
+              );
+            })}
+          {extremes.map((extreme) => (
+            <ellipse
+              key={extreme.kind}
+              className="stockwidget-extreme"
+              cx={extreme.x}
+              cy={extreme.y}
+              rx={EXTREME_RADIUS / graphScaleX}
+              ry={EXTREME_RADIUS / graphScaleY}
+              fill={extreme.kind === "high" ? theme.up : theme.down}
+              stroke={theme.inverse}
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </svg>
+      )}
+      {count > 1 && axes && (
+        <div className="stockwidget-axisY" aria-hidden="true">
+          {valueTicks.map((tick) => (
+            <div
+              key={tick}
+              style={{
+                position: "absolute",
+                left: 0,
+                top: (scale.toY(tick) / GRAPH_VIEWBOX_HEIGHT) * height,
+                transform: "translateY(-100%)",
+                padding: "0 0.2rem",
+                fontSize: "0.6rem",
+                lineHeight: "1.3em",
+                fontVariantNumeric: "tabular-nums",
+                whiteSpace: "nowrap",
+                pointerEvents: "none",
+                color: theme.textMuted,
+              }}
+            >
+              {formatValue(tick)}
+            </div>
+          ))}
+        </div>
+      )}
+      {count > 1 &&
+        levels.map((level) => (
+          <div
+            key={level.id}
+            className="stockwidget-levelLabel"
+            style={{
+              position: "absolute",
+              right: 0,
+              top: (scale.toY(level.value) / GRAPH_VIEWBOX_HEIGHT) * height,
+              transform: "translateY(-100%)",
+              padding: "0 0.25rem",
+              borderRadius: "3px",
+              fontSize: "0.65rem",
+              lineHeight: "1.3em",
+              whiteSpace: "nowrap",
+              pointerEvents: "none",
+              color: level.highlighted ? theme.inverseText : level.color,
+              background: level.highlighted ? level.color : "transparent",
+              fontWeight: level.highlighted ? 600 : 400,
+            }}
+          >
+            {level.label ? `${level.label} ${formatValue(level.value)}` : formatValue(level.value)}
+          </div>
+        ))}
+      {count > 1 &&
+        extremes.map((extreme) => {
+          const shiftX = getLabelShift(extreme.x);
+          return (
+            <div
+              key={extreme.kind}
+              className="stockwidget-extremeLabel"
+              style={{
+                position: "absolute",
+                left: `${(extreme.x / GRAPH_BASE_WIDTH) * 100}%`,
+                top: (extreme.y / GRAPH_VIEWBOX_HEIGHT) * height,
+                transform:
+                  extreme.kind === "high"
+                    ? `translate(${shiftX}, calc(-100% - 4px))`
+                    : `translate(${shiftX}, 4px)`,
+                fontSize: "0.65rem",
+                lineHeight: "1.2em",
+                fontWeight: 600,
+                fontVariantNumeric: "tabular-nums",
+                whiteSpace: "nowrap",
+                pointerEvents: "none",
+                color: extreme.kind === "high" ? theme.up : theme.down,
+              }}
+            >
+              <span style={visuallyHidden}>
+                {extreme.kind === "high" ? messages.highestPrice : messages.lowestPrice}{" "}
+              </span>
+              {formatValue(extreme.value)}
+            </div>
+          );
+        })}
+      {count > 1 && volumeBars && (
+        <svg
+          className="stockwidget-volume"
+          width="100%"
+          height={VOLUME_STRIP_HEIGHT}
+          viewBox={`0 0 ${GRAPH_BASE_WIDTH} ${VOLUME_BASE_HEIGHT}`}
+          preserveAspectRatio="none"
+          aria-hidden="true"
+          style={{ display: "block", marginTop: "2px" }}
+        >
+          {volumeBars.map((bar, i) => {
+            const x = getTickX(i);
+            const barHeight = maxVolume ? (bar.volume / maxVolume) * VOLUME_BASE_HEIGHT : 0;
+            return (
+              <rect
+                key={bar.timestamp}
+                x={x - bandWidth / 2 + volumeGap / 2}
+                y={VOLUME_BASE_HEIGHT - barHeight}
+                width={Math.max(bandWidth - volumeGap, 0)}
+                height={barHeight}
+                fill={bar.close >= bar.open ? theme.up : theme.down}
+                fillOpacity={hoveredIndex === null || hoveredIndex === i ? 0.8 : 0.4}
+              />
+            );
+          })}
+        </svg>
+      )}
+      {count > 1 && axes && (
+        <div
+          className="stockwidget-axisX"
+          aria-hidden="true"
+          style={{
+            position: "relative",
+            height: "1.4em",
+            marginTop: "2px",
+            fontSize: "0.6rem",
+            lineHeight: "1.4em",
+            color: theme.textMuted,
+          }}
+        >
+          {dateTicks.map((tick) => {
+            const x = getTickX(tick.index);
+            return (
+              <span
+                key={tick.index}
+                style={{
+                  position: "absolute",
+                  left: `${(x / GRAPH_BASE_WIDTH) * 100}%`,
+                  transform: `translateX(${getLabelShift(x)})`,
+                  whiteSpace: "nowrap",
+                }}
+              >
+                {axisDate(tick.date, tick.unit)}
+              </span>
+            );
+          })}
+        </div>
+      )}
+      {count > 1 && (span || (zoomed && onResetZoom)) && (
+        <div
+          className="stockwidget-brush"
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            alignItems: "center",
+            gap: "0.25rem 0.5rem",
+            marginTop: "0.3rem",
+            fontSize: "0.75rem",
+          }}
+        >
+          {span && (
+            <span
+              className="stockwidget-selectionChange"
+              style={{ fontWeight: 600, fontVariantNumeric: "tabular-nums" }}
+            >
+              {describeSelection(span.from, span.to)}
+            </span>
+          )}
+          {span && onZoom && (
+            <button type="button" onClick={zoomToSelection} style={brushButtonStyle}>
+              {messages.zoomIn}
+            </button>
+          )}
+          {zoomed && onResetZoom && (
+            <button type="button" onClick={onResetZoom} style={brushButtonStyle}>
+              {messages.resetZoom}
+            </button>
+          )}
+        </div>
+      )}
+      <div id={`${gradientId}-instructions`} style={visuallyHidden}>
+        {messages.chartInstructions}
+      </div>
+      <div className="stockwidget-announcer" aria-live="polite" style={visuallyHidden}>
+        {announcement}
+      </div>
+      {count > 1 && (
+        <table className="stockwidget-dataTable" style={visuallyHidden}>
+          <caption>{label}</caption>
+          <thead>
+            <tr>
+              <th scope="col">{messages.date}</th>
+              {candleBars
+                ? [messages.openPrice, messages.highPrice, messages.lowPrice, messages.closePrice].map(
+                    (heading) => (
+                      <th key={heading} scope="col">
+                        {heading}
+                      </th>
+                    )
+                  )
+                : series.map((entry) => (
+                    <th key={entry.id} scope="col">
+                      {series.length > 1 ? entry.label : messages.price}
+                    </th>
+                  ))}
+              {overlays.map((overlay) => (
+                <th key={overlay.id} scope="col">
+                  {overlay.label}
+                </th>
+              ))}
+              {volumeBars && <th scope="col">{messages.volumeFull}</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {dates.map((date, i) => (
+              <tr key={date}>
+                <th scope="row">{formatDate(date)}</th>
+                {candleBars
+                  ? [candleBars[i].open, candleBars[i].high, candleBars[i].low, candleBars[i].close].map(
+                      (value, column) => <td key={column}>{formatValue(value)}</td>
+                    )
+                  : series.map((entry) => {
+                      const value = entry.values[i];
+                      return (
+                        <td key={entry.id}>
+                          {value === null || value === undefined ? "" : formatValue(value)}
+                        </td>
+                      );
+                    })}
+                {overlays.map((overlay) => {
+                  const value = overlay.values[i];
+                  return (
+                    <td key={overlay.id}>
+                      {value === null || value === undefined ? "" : formatValue(value)}
+                    </td>
+                  );
+                })}
+                {volumeBars && <td>{compact(volumeBars[i].volume)}</td>}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {tooltip && hoveredIndex !== null && hoveredValues.length > 0 && (
+        <div
+          className="stockwidget-tooltip"
+          style={{
+            position: "absolute",
+            left: tooltip.x,
+            top: tooltip.y,
+            transform:
+              tooltip.y < 28
+                ? "translate(-50%, 10px)"
+                : "translate(-50%, -110%)",
+            background: theme.inverse,
+            color: theme.inverseText,
+            borderRadius: "12px",
+            padding: "6px 8px",
+            fontSize: "11px",
+            fontWeight: 600,
+            lineHeight: "1.1",
+            textAlign: "center",
+            minWidth: "64px",
+            maxWidth: series.length > 1 || overlays.length > 0 ? "160px" : "110px",
+            boxShadow: "0 8px 18px rgba(15, 23, 42, 0.12)",
+            border: "1px solid rgba(15, 23, 42, 0.08)",
+            pointerEvents: "none",
+            whiteSpace: "nowrap",
+          }}
+        >
+          {hoveredBar ? (
+            <dl
+              className="stockwidget-ohlc"
+              style={{
+                display: "grid",
+                gridTemplateColumns: "auto auto",
+                columnGap: "6px",
+                margin: 0,
+                textAlign: "left",
+                fontVariantNumeric: "tabular-nums",
+              }}
+            >
+              {(
+                [
+                  [messages.open, hoveredBar.open],
+                  [messages.high, hoveredBar.high],
+                  [messages.low, hoveredBar.low],
+                  [messages.close, hoveredBar.close],
+                ] as const
+              ).map(([label, value]) => (
+                <React.Fragment key={label}>
+                  <dt style={{ color: theme.inverseTextMuted }}>{label}</dt>
+                  <dd style={{ margin: 0, textAlign: "right" }}>{formatValue(value)}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          ) : series.length > 1 ? (
+            hoveredValues.map(({ entry, value }) => (
+              <div
+                key={entry.id}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                  gap: "6px",
+                  fontVariantNumeric: "tabular-nums",
+                  marginBottom: "2px",
+                }}
+              >
+                <span style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+                  <span
+                    aria-hidden="true"
+                    style={{
+                      width: "6px",
+                      height: "6px",
+                      borderRadius: "50%",
+                      background: entry.color,
+                    }}
+                  />
+                  {entry.label}
+                </span>
+                <span>{formatValue(value)}</span>
+              </div>
+            ))
+          ) : (
+            <div style={{ fontVariantNumeric: "tabular-nums" }}>
+              {formatValue(hoveredValues[0].value)}
+            </div>
+          )}
+          {hoveredOverlays.map(({ entry, value }) => (
+            <React.Fragment key={entry.id}>
+              <div
+                className="stockwidget-indicatorValue"
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                  gap: "6px",
+                  fontVariantNumeric: "tabular-nums",
+                  fontWeight: 500,
+                  marginTop: "2px",
+                }}
+              >
+                <span style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+                  <span
+                    aria-hidden="true"
+                    style={{ width: "8px", height: "2px", background: entry.color }}
+                  />
+                  {entry.label}
+                </span>
+                <span>{formatValue(value)}</span>
+              </div>
+              {entry.band && hoveredIndex !== null && (
+                <div
+                  className="stockwidget-indicatorBand"
+                  style={{
+                    textAlign: "right",
+                    fontVariantNumeric: "tabular-nums",
+                    fontWeight: 500,
+                    color: theme.inverseTextMuted,
+                  }}
+                >
+                  {formatValue(entry.band.lower[hoveredIndex] ?? value)} –{" "}
+                  {formatValue(entry.band.upper[hoveredIndex] ?? value)}
+                </div>
+              )}
+            </React.Fragment>
+          ))}
+          <div
+            style={{
+              fontSize: "10px",
+              fontWeight: 500,
+              color: theme.inverseTextMuted,
+              marginTop: "2px",
+            }}
+          >
+            {formatDate(dates[hoveredIndex])}
+          </div>
+          {volumeBars && (
+            <div
+              className="stockwidget-volume-label"
+              style={{
+                fontSize: "10px",
+                fontWeight: 500,
+                color: theme.inverseTextMuted,
+                marginTop: "2px",
+              }}
+            >
+              {messages.volume} {compact(volumeBars[hoveredIndex].volume)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
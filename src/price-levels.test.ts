@@ -0,0 +1,29 @@
+import { getAlertDirection, toPriceAlerts, toReferenceLevels } from "./price-levels";
+
+describe("price levels", () => {
+  it("reads levels from arrays and JSON, skipping entries without a price", () => {
+    const levels = [{ label: " IPO ", price: 38 }, { label: "Target", price: "250", color: "#f59e0b" }, { label: "Empty" }];
+
+    expect(toReferenceLevels(levels)).toEqual([
+      { label: "IPO", price: 38, color: undefined },
+      { label: "Target", price: 250, color: "#f59e0b" },
+    ]);
+    expect(toReferenceLevels(JSON.stringify(levels))).toHaveLength(2);
+    expect(toReferenceLevels("not json")).toEqual([]);
+    expect(toReferenceLevels("")).toEqual([]);
+  });
+
+  it("reads alert thresholds, leaving empty ones disabled", () => {
+    expect(toPriceAlerts("200", "")).toEqual({ above: 200, below: null });
+    expect(toPriceAlerts(undefined, "abc")).toEqual({ above: null, below: null });
+  });
+
+  it("tells which threshold the price is beyond", () => {
+    const alerts = { above: 200, below: 150 };
+
+    expect(getAlertDirection(200, alerts)).toBe("above");
+    expect(getAlertDirection(149, alerts)).toBe("below");
+    expect(getAlertDirection(175, alerts)).toBeNull();
+    expect(getAlertDirection(null, alerts)).toBeNull();
+  });
+});
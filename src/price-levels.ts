@@ -0,0 +1,93 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Reference levels and alert thresholds which admins draw on the graph, e.g. the IPO price or a
+ * target. Both are prices in the currency of the symbol.
+ */
+
+export interface ReferenceLevel {
+  label: string;
+  price: number;
+  color?: string;
+}
+
+export interface PriceAlerts {
+  above: number | null;
+  below: number | null;
+}
+
+export type AlertDirection = "above" | "below";
+
+/**
+ * Name of the DOM event dispatched on the widget when the latest price crosses an alert threshold
+ */
+export const PRICE_ALERT_EVENT = "stockwidget-alert";
+
+export interface PriceAlertDetail {
+  symbol: string;
+  price: number;
+  direction: AlertDirection;
+  threshold: number;
+}
+
+const toPrice = (value: unknown): number | null => {
+  if (value === "" || value === null || value === undefined) return null;
+  const price = Number(value);
+  return Number.isFinite(price) ? price : null;
+};
+
+/**
+ * Reads the reference levels of the configuration, an array or its JSON. Entries without a
+ * price are skipped.
+ */
+export const toReferenceLevels = (value: unknown): ReferenceLevel[] => {
+  let levels = value;
+  if (typeof value === "string") {
+    try {
+      levels = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(levels)) return [];
+  return levels.flatMap((level: Partial<Record<keyof ReferenceLevel, unknown>>) => {
+    const price = toPrice(level?.price);
+    if (price === null) return [];
+    const label = typeof level.label === "string" ? level.label.trim() : "";
+    const color =
+      typeof level.color === "string" && level.color.trim() ? level.color.trim() : undefined;
+    return [{ label, price, color }];
+  });
+};
+
+/**
+ * Reads the alert thresholds; empty or invalid values disable the alert
+ */
+export const toPriceAlerts = (above: unknown, below: unknown): PriceAlerts => ({
+  above: toPrice(above),
+  below: toPrice(below),
+});
+
+/**
+ * The threshold the price is beyond, if any
+ */
+export const getAlertDirection = (
+  price: number | null,
+  alerts: PriceAlerts
+): AlertDirection | null => {
+  if (price === null) return null;
+  if (alerts.above !== null && price >= alerts.above) return "above";
+  if (alerts.below !== null && price <= alerts.below) return "below";
+  return null;
+};
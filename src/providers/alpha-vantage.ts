@@ -0,0 +1,168 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { fetchJson, toIsoDate, toQueryString } from "./http";
+import { fromZonedTime } from "../market-calendar";
+import {
+  Granularity,
+  MarketDataError,
+  MarketDataProvider,
+  OhlcvBar,
+  ProviderOptions,
+} from "./types";
+
+const DEFAULT_BASE_URL = "https://www.alphavantage.co";
+
+// Intraday times are US/Eastern wall times unless the meta data names another zone
+const DEFAULT_TIME_ZONE = "America/New_York";
+
+type AlphaVantageBar = Record<"1. open" | "2. high" | "3. low" | "4. close" | "5. volume", string>;
+
+interface AlphaVantageOverview {
+  Symbol?: string;
+  Name?: string;
+  Exchange?: string;
+  Currency?: string;
+  MarketCapitalization?: string;
+  SharesOutstanding?: string;
+  OfficialSite?: string;
+  Description?: string;
+}
+
+const seriesFunctions: Record<Granularity, { fn: string; interval?: string }> = {
+  minute: { fn: "TIME_SERIES_INTRADAY", interval: "1min" },
+  hour: { fn: "TIME_SERIES_INTRADAY", interval: "60min" },
+  day: { fn: "TIME_SERIES_DAILY" },
+  week: { fn: "TIME_SERIES_WEEKLY" },
+};
+
+/**
+ * Alpha Vantage answers rate limits and bad symbols with HTTP 200 and a message in the body
+ */
+const assertNoApiMessage = (data: Record<string, unknown>) => {
+  const message = data["Error Message"] ?? data["Note"] ?? data["Information"];
+  if (typeof message === "string") {
+    throw new MarketDataError(message);
+  }
+};
+
+/**
+ * The time zone the meta data gives for the series, e.g. "US/Eastern" in "6. Time Zone"
+ */
+const getTimeZone = (meta: unknown): string => {
+  const entry = Object.entries(meta ?? {}).find(([key]) => key.endsWith("Time Zone"));
+  const timeZone = typeof entry?.[1] === "string" ? entry[1] : DEFAULT_TIME_ZONE;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+};
+
+/**
+ * Intraday keys are wall times such as "2024-07-01 15:59:00", daily keys plain dates
+ */
+const parseTime = (time: string, timeZone: string): number => {
+  const [date, clock] = time.split(" ");
+  if (!clock) return Date.parse(date);
+  const [hours, minutes] = clock.split(":").map(Number);
+  return fromZonedTime(date, hours * 60 + minutes, timeZone);
+};
+
+const toNumber = (value?: string): number | undefined => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Provider for the Alpha Vantage API
+ */
+export const createAlphaVantageProvider = ({
+  apiKey,
+  baseUrl = DEFAULT_BASE_URL,
+}: ProviderOptions): MarketDataProvider => ({
+  id: "alphavantage",
+
+  async fetchDetails(symbol, signal) {
+    const query = toQueryString({ function: "OVERVIEW", symbol, apikey: apiKey });
+    const data = await fetchJson<AlphaVantageOverview & Record<string, unknown>>(
+      `${baseUrl}/query?${query}`,
+      signal,
+    );
+    assertNoApiMessage(data);
+    return {
+      symbol: data.Symbol || symbol,
+      name: data.Name,
+      exchange: data.Exchange,
+      currency: data.Currency,
+      marketCap: toNumber(data.MarketCapitalization),
+      sharesOutstanding: toNumber(data.SharesOutstanding),
+      homepage: data.OfficialSite,
+      description: data.Description,
+    };
+  },
+
+  async fetchSeries({ symbol, from, to, granularity }, signal) {
+    const { fn, interval } = seriesFunctions[granularity];
+    const query = toQueryString({
+      function: fn,
+      symbol,
+      interval,
+      outputsize: "full",
+      apikey: apiKey,
+    });
+    const data = await fetchJson<Record<string, unknown>>(`${baseUrl}/query?${query}`, signal);
+    assertNoApiMessage(data);
+
+    const seriesKey = Object.keys(data).find((key) => key.includes("Time Series"));
+    const series = seriesKey ? (data[seriesKey] as Record<string, AlphaVantageBar>) : undefined;
+    if (!series) {
+      throw new MarketDataError("No time series found in Alpha Vantage response.");
+    }
+
+    const timeZone = getTimeZone(data["Meta Data"]);
+    const bars = Object.entries(series)
+      .map(([time, bar]): OhlcvBar => {
+        const timestamp = parseTime(time, timeZone);
+        return {
+          timestamp,
+          date: toIsoDate(timestamp),
+          open: Number(bar["1. open"]),
+          high: Number(bar["2. high"]),
+          low: Number(bar["3. low"]),
+          close: Number(bar["4. close"]),
+          volume: Number(bar["5. volume"]),
+        };
+      })
+      .filter((bar) => bar.timestamp >= from.getTime() && bar.timestamp <= to.getTime())
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    if (!bars.length) {
+      throw new MarketDataError("No results found in Alpha Vantage time series.");
+    }
+    return bars;
+  },
+
+  async fetchLastTrade(symbol, signal) {
+    const query = toQueryString({ function: "GLOBAL_QUOTE", symbol, apikey: apiKey });
+    const data = await fetchJson<Record<string, unknown>>(`${baseUrl}/query?${query}`, signal);
+    assertNoApiMessage(data);
+    const quote = data["Global Quote"] as Record<string, string> | undefined;
+    const price = toNumber(quote?.["05. price"]);
+    if (!quote || price === undefined) {
+      throw new MarketDataError(`No quote found for ${symbol}.`);
+    }
+    return { price, timestamp: Date.parse(quote["07. latest trading day"]) || Date.now() };
+  },
+});
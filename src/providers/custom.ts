@@ -0,0 +1,77 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { fetchJson, toIsoDate, toQueryString } from "./http";
+import {
+  MarketDataError,
+  MarketDataProvider,
+  OhlcvBar,
+  ProviderConfigError,
+  ProviderOptions,
+  TickerDetails,
+  Trade,
+} from "./types";
+
+/**
+ * Provider for a self-hosted JSON endpoint which already speaks the widget's own types:
+ *
+ *   GET <endpoint>/details/<symbol>                                → TickerDetails
+ *   GET <endpoint>/series/<symbol>?from=&to=&granularity=&apiKey=  → OhlcvBar[]
+ *   GET <endpoint>/quote/<symbol>?apiKey=                          → Trade
+ *
+ * Bars may omit `date`, it is derived from `timestamp`.
+ */
+export const createCustomProvider = ({ endpoint, apiKey }: ProviderOptions): MarketDataProvider => {
+  if (!endpoint) {
+    throw new ProviderConfigError("The custom provider needs an endpoint URL.");
+  }
+  const baseUrl = endpoint.replace(/\/+$/, "");
+
+  return {
+    id: "custom",
+
+    async fetchDetails(symbol, signal) {
+      const query = toQueryString({ apiKey });
+      const details = await fetchJson<TickerDetails>(
+        `${baseUrl}/details/${encodeURIComponent(symbol)}${query ? `?${query}` : ""}`,
+        signal,
+      );
+      return { ...details, symbol: details.symbol || symbol };
+    },
+
+    async fetchSeries({ symbol, from, to, granularity }, signal) {
+      const query = toQueryString({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        granularity,
+        apiKey,
+      });
+      const bars = await fetchJson<Omit<OhlcvBar, "date">[]>(
+        `${baseUrl}/series/${encodeURIComponent(symbol)}?${query}`,
+        signal,
+      );
+      if (!Array.isArray(bars) || !bars.length) {
+        throw new MarketDataError("No results found at the custom endpoint.");
+      }
+      return bars.map((bar) => ({ ...bar, date: toIsoDate(bar.timestamp) }));
+    },
+
+    async fetchLastTrade(symbol, signal) {
+      const query = toQueryString({ apiKey });
+      return fetchJson<Trade>(
+        `${baseUrl}/quote/${encodeURIComponent(symbol)}${query ? `?${query}` : ""}`,
+        signal,
+      );
+    },
+  };
+};
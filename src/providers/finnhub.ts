@@ -0,0 +1,116 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { fetchJson, toIsoDate, toQueryString } from "./http";
+import { Granularity, MarketDataError, MarketDataProvider, OhlcvBar, ProviderOptions } from "./types";
+
+const DEFAULT_BASE_URL = "https://finnhub.io";
+
+interface FinnhubProfile {
+  ticker?: string;
+  name?: string;
+  exchange?: string;
+  currency?: string;
+  marketCapitalization?: number;
+  shareOutstanding?: number;
+  weburl?: string;
+  logo?: string;
+}
+
+interface FinnhubCandles {
+  s: "ok" | "no_data";
+  t?: number[];
+  o?: number[];
+  h?: number[];
+  l?: number[];
+  c?: number[];
+  v?: number[];
+}
+
+interface FinnhubQuote {
+  c: number;
+  t: number;
+}
+
+const resolutions: Record<Granularity, string> = {
+  minute: "1",
+  hour: "60",
+  day: "D",
+  week: "W",
+};
+
+// Finnhub reports market cap and shares outstanding in millions
+const MILLION = 1_000_000;
+
+/**
+ * Provider for the Finnhub API
+ */
+export const createFinnhubProvider = ({
+  apiKey,
+  baseUrl = DEFAULT_BASE_URL,
+}: ProviderOptions): MarketDataProvider => ({
+  id: "finnhub",
+
+  async fetchDetails(symbol, signal) {
+    const query = toQueryString({ symbol, token: apiKey });
+    const data = await fetchJson<FinnhubProfile>(`${baseUrl}/api/v1/stock/profile2?${query}`, signal);
+    return {
+      symbol: data.ticker || symbol,
+      name: data.name,
+      exchange: data.exchange,
+      currency: data.currency,
+      marketCap:
+        data.marketCapitalization !== undefined ? data.marketCapitalization * MILLION : undefined,
+      sharesOutstanding:
+        data.shareOutstanding !== undefined ? data.shareOutstanding * MILLION : undefined,
+      homepage: data.weburl,
+      logoUrl: data.logo,
+    };
+  },
+
+  async fetchSeries({ symbol, from, to, granularity }, signal) {
+    const query = toQueryString({
+      symbol,
+      resolution: resolutions[granularity],
+      from: Math.floor(from.getTime() / 1000),
+      to: Math.floor(to.getTime() / 1000),
+      token: apiKey,
+    });
+    const data = await fetchJson<FinnhubCandles>(`${baseUrl}/api/v1/stock/candle?${query}`, signal);
+    if (data.s !== "ok" || !data.t?.length) {
+      throw new MarketDataError("No results found in Finnhub candles.");
+    }
+    return data.t.map((seconds, i): OhlcvBar => {
+      const timestamp = seconds * 1000;
+      return {
+        timestamp,
+        date: toIsoDate(timestamp),
+        open: data.o?.[i] ?? NaN,
+        high: data.h?.[i] ?? NaN,
+        low: data.l?.[i] ?? NaN,
+        close: data.c?.[i] ?? NaN,
+        volume: data.v?.[i] ?? 0,
+      };
+    });
+  },
+
+  async fetchLastTrade(symbol, signal) {
+    const query = toQueryString({ symbol, token: apiKey });
+    const data = await fetchJson<FinnhubQuote>(`${baseUrl}/api/v1/quote?${query}`, signal);
+    // unknown symbols are answered with a zero quote
+    if (!data.c || !data.t) {
+      throw new MarketDataError(`No quote found for ${symbol}.`);
+    }
+    return { price: data.c, timestamp: data.t * 1000 };
+  },
+});
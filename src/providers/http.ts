@@ -0,0 +1,40 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MarketDataError } from "./types";
+
+/**
+ * Fetches the given url and parses the JSON body, rejecting with a MarketDataError on HTTP errors
+ */
+export const fetchJson = async <T>(url: string, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new MarketDataError(`HTTP error! Status: ${response.status}`, response.status);
+  }
+  return (await response.json()) as T;
+};
+
+/**
+ * Formats a date as YYYY-MM-DD in UTC
+ */
+export const toIsoDate = (date: Date | number): string =>
+  new Date(date).toISOString().split("T")[0];
+
+/**
+ * Drops undefined and empty values from a query parameter map and encodes the rest
+ */
+export const toQueryString = (params: Record<string, string | number | undefined>): string =>
+  Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join("&");
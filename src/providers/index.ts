@@ -0,0 +1,38 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createAlphaVantageProvider } from "./alpha-vantage";
+import { createCustomProvider } from "./custom";
+import { createFinnhubProvider } from "./finnhub";
+import { createPolygonProvider } from "./polygon";
+import { MarketDataProvider, ProviderId, ProviderOptions } from "./types";
+
+export * from "./types";
+
+const factories: Record<ProviderId, (options: ProviderOptions) => MarketDataProvider> = {
+  polygon: createPolygonProvider,
+  alphavantage: createAlphaVantageProvider,
+  finnhub: createFinnhubProvider,
+  custom: createCustomProvider,
+};
+
+export const providerIds = Object.keys(factories) as ProviderId[];
+
+export const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === "string" && value in factories;
+
+/**
+ * Creates the provider with the given id, falling back to polygon for unknown ids
+ */
+export const createProvider = (id: string | undefined, options: ProviderOptions): MarketDataProvider =>
+  factories[isProviderId(id) ? id : "polygon"](options);
@@ -0,0 +1,105 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MarketDataError, Trade } from "./types";
+
+export const POLYGON_STOCKS_SOCKET_URL = "wss://socket.polygon.io/stocks";
+
+/**
+ * Events of Polygon's WebSocket protocol, status messages and trades ("T") are used
+ */
+interface PolygonStreamEvent {
+  ev: string;
+  status?: string;
+  message?: string;
+  sym?: string;
+  p?: number;
+  t?: number;
+}
+
+export interface TradeStreamOptions {
+  url: string;
+  symbol: string;
+  apiKey?: string;
+  onTrade: (trade: Trade) => void;
+  onError: (error: Error) => void;
+  onClose?: () => void;
+}
+
+/**
+ * Opens a socket speaking Polygon's protocol and subscribes to the trades of one symbol:
+ * the server greets with `connected`, we authenticate and subscribe to `T.<symbol>`.
+ * Without an api key the auth step is skipped, e.g. for a proxy that authenticates itself.
+ * A rejected key is reported as a MarketDataError with status 401.
+ *
+ * @returns a function closing the connection, or null when the socket could not be created
+ */
+export const openTradeStream = ({
+  url,
+  symbol,
+  apiKey,
+  onTrade,
+  onError,
+  onClose,
+}: TradeStreamOptions): (() => void) | null => {
+  // polygon's symbols are upper case, trades of "aapl" arrive as "AAPL"
+  const ticker = symbol.toUpperCase();
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(url);
+  } catch (error) {
+    // e.g. a malformed url, reported instead of thrown into the render
+    onError(error instanceof Error ? error : new Error(`Stream connection to ${url} failed`));
+    return null;
+  }
+  const subscribe = () =>
+    socket.send(JSON.stringify({ action: "subscribe", params: `T.${ticker}` }));
+  let closedByClient = false;
+
+  socket.onmessage = (message: MessageEvent) => {
+    let events: PolygonStreamEvent[];
+    try {
+      events = JSON.parse(String(message.data));
+    } catch {
+      return;
+    }
+    for (const event of Array.isArray(events) ? events : []) {
+      if (event.ev === "status") {
+        if (event.status === "connected") {
+          if (apiKey) {
+            socket.send(JSON.stringify({ action: "auth", params: apiKey }));
+          } else {
+            subscribe();
+          }
+        } else if (event.status === "auth_success") {
+          subscribe();
+        } else if (event.status === "auth_failed") {
+          onError(new MarketDataError(event.message || "Stream auth_failed", 401));
+        } else if (event.status === "error") {
+          onError(new Error(event.message || "Stream error"));
+        }
+      } else if (event.ev === "T" && event.sym === ticker && event.p !== undefined) {
+        onTrade({ price: event.p, timestamp: event.t ?? Date.now() });
+      }
+    }
+  };
+  socket.onerror = () => onError(new Error("Stream connection failed"));
+  socket.onclose = () => {
+    if (!closedByClient) onClose?.();
+  };
+
+  return () => {
+    closedByClient = true;
+    socket.close();
+  };
+};
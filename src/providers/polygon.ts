@@ -0,0 +1,148 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { fetchJson, toIsoDate, toQueryString } from "./http";
+import {
+  Granularity,
+  MarketDataError,
+  MarketDataProvider,
+  OhlcvBar,
+  ProviderOptions,
+  TickerDetails,
+  Trade,
+} from "./types";
+
+const DEFAULT_BASE_URL = "https://api.polygon.io";
+
+interface PolygonTickerDetails {
+  ticker: string;
+  name?: string;
+  primary_exchange?: string;
+  currency_name?: string;
+  market_cap?: number;
+  share_class_shares_outstanding?: number;
+  weighted_shares_outstanding?: number;
+  homepage_url?: string;
+  description?: string;
+  branding?: {
+    logo_url?: string;
+    icon_url?: string;
+  };
+}
+
+interface PolygonAggregate {
+  t: number;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+}
+
+interface PolygonLastTrade {
+  p: number;
+  // SIP timestamp in nanoseconds
+  t: number;
+}
+
+const timespans: Record<Granularity, string> = {
+  minute: "minute",
+  hour: "hour",
+  day: "day",
+  week: "week",
+};
+
+/**
+ * Provider for the polygon.io REST API
+ */
+export const createPolygonProvider = ({
+  apiKey,
+  baseUrl = DEFAULT_BASE_URL,
+}: ProviderOptions): MarketDataProvider => ({
+  id: "polygon",
+
+  /**
+   * Branding images are served by the API and need the key like any other request.
+   * Through a proxy they are loaded from the proxy instead.
+   */
+  toImageUrl(url) {
+    if (!url.startsWith(DEFAULT_BASE_URL)) return url;
+    const path = url.slice(DEFAULT_BASE_URL.length);
+    const query = toQueryString({ apiKey });
+    return `${baseUrl}${path}${query ? `${path.includes("?") ? "&" : "?"}${query}` : ""}`;
+  },
+
+  async fetchDetails(symbol, signal) {
+    const query = toQueryString({ apiKey });
+    const data = await fetchJson<{ results?: PolygonTickerDetails }>(
+      `${baseUrl}/v3/reference/tickers/${encodeURIComponent(symbol)}?${query}`,
+      signal,
+    );
+    const details = data.results;
+    if (!details) {
+      throw new MarketDataError(`No ticker details found for ${symbol}.`);
+    }
+    const result: TickerDetails = {
+      symbol: details.ticker || symbol,
+      name: details.name,
+      exchange: details.primary_exchange,
+      currency: details.currency_name,
+      marketCap: details.market_cap,
+      sharesOutstanding:
+        details.share_class_shares_outstanding ?? details.weighted_shares_outstanding,
+      homepage: details.homepage_url,
+      description: details.description,
+      logoUrl: details.branding?.logo_url,
+      iconUrl: details.branding?.icon_url,
+    };
+    return result;
+  },
+
+  async fetchSeries({ symbol, from, to, granularity }, signal) {
+    const query = toQueryString({ adjusted: "true", sort: "asc", limit: 50000, apiKey });
+    const data = await fetchJson<{ results?: PolygonAggregate[] }>(
+      `${baseUrl}/v2/aggs/ticker/${encodeURIComponent(symbol)}/range/1/${timespans[granularity]}/${toIsoDate(from)}/${toIsoDate(to)}?${query}`,
+      signal,
+    );
+    if (!data.results?.length) {
+      throw new MarketDataError("No results found in Polygon aggregates.");
+    }
+    return data.results.map(
+      (r): OhlcvBar => ({
+        timestamp: r.t,
+        date: toIsoDate(r.t),
+        open: r.o,
+        high: r.h,
+        low: r.l,
+        close: r.c,
+        volume: r.v,
+      }),
+    );
+  },
+
+  async fetchLastTrade(symbol, signal) {
+    const query = toQueryString({ apiKey });
+    const data = await fetchJson<{ results?: PolygonLastTrade }>(
+      `${baseUrl}/v2/last/trade/${encodeURIComponent(symbol)}?${query}`,
+      signal,
+    );
+    if (!data.results) {
+      throw new MarketDataError(`No last trade found for ${symbol}.`);
+    }
+    const trade: Trade = {
+      price: data.results.p,
+      timestamp: Math.round(data.results.t / 1_000_000),
+    };
+    return trade;
+  },
+});
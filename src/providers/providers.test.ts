@@ -0,0 +1,164 @@
+import { createProvider, MarketDataError } from "./index";
+
+const mockFetch = (body: unknown, status = 200) => {
+  const fetchMock = jest.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(body),
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+};
+
+const request = {
+  symbol: "AAPL",
+  from: new Date("2024-01-01T00:00:00Z"),
+  to: new Date("2024-01-31T00:00:00Z"),
+  granularity: "day" as const,
+};
+
+describe("market data providers", () => {
+  it("maps polygon aggregates to bars", async () => {
+    const fetchMock = mockFetch({
+      results: [{ t: Date.UTC(2024, 0, 2), o: 1, h: 3, l: 0.5, c: 2, v: 100 }],
+    });
+
+    const bars = await createProvider("polygon", { apiKey: "key" }).fetchSeries(request);
+
+    expect(fetchMock.mock.calls[0][0]).toContain(
+      "/v2/aggs/ticker/AAPL/range/1/day/2024-01-01/2024-01-31",
+    );
+    expect(bars).toEqual([
+      { timestamp: Date.UTC(2024, 0, 2), date: "2024-01-02", open: 1, high: 3, low: 0.5, close: 2, volume: 100 },
+    ]);
+  });
+
+  it("maps polygon ticker details", async () => {
+    mockFetch({
+      results: {
+        ticker: "AAPL",
+        name: "Apple Inc.",
+        currency_name: "usd",
+        market_cap: 2.9e12,
+        branding: { icon_url: "https://example.com/icon.png" },
+      },
+    });
+
+    const details = await createProvider("polygon", {}).fetchDetails("AAPL");
+
+    expect(details).toMatchObject({
+      symbol: "AAPL",
+      name: "Apple Inc.",
+      currency: "usd",
+      marketCap: 2.9e12,
+      iconUrl: "https://example.com/icon.png",
+    });
+  });
+
+  it("adds the key to polygon branding URLs, or loads them through the proxy", async () => {
+    const branding = {
+      logo_url: "https://api.polygon.io/v1/reference/company-branding/abc/images/logo.svg",
+      icon_url: "https://api.polygon.io/v1/reference/company-branding/abc/images/icon.png",
+    };
+    mockFetch({ results: { ticker: "AAPL", branding } });
+
+    const withKey = createProvider("polygon", { apiKey: "key" });
+    const proxied = createProvider("polygon", { baseUrl: "/market-data/polygon" });
+    const details = await withKey.fetchDetails("AAPL");
+
+    // the details are cached, the key must not be part of them
+    expect(details.logoUrl).toBe(branding.logo_url);
+    expect(withKey.toImageUrl?.(branding.logo_url)).toBe(`${branding.logo_url}?apiKey=key`);
+    expect(proxied.toImageUrl?.(branding.icon_url)).toBe("/market-data/polygon/v1/reference/company-branding/abc/images/icon.png");
+    expect(withKey.toImageUrl?.("https://example.com/logo.png")).toBe("https://example.com/logo.png");
+  });
+
+  it("converts polygon's nanosecond trade timestamps", async () => {
+    mockFetch({ results: { p: 189.5, t: 1704153600123 * 1_000_000 + 456_789 } });
+
+    const trade = await createProvider("polygon", {}).fetchLastTrade("AAPL");
+
+    expect(trade).toEqual({ price: 189.5, timestamp: 1704153600123 });
+  });
+
+  it("rejects with a MarketDataError on HTTP errors", async () => {
+    mockFetch({}, 429);
+
+    await expect(createProvider("polygon", {}).fetchSeries(request)).rejects.toEqual(
+      new MarketDataError("HTTP error! Status: 429", 429),
+    );
+  });
+
+  it("sorts and filters alpha vantage series", async () => {
+    mockFetch({
+      "Meta Data": {},
+      "Time Series (Daily)": {
+        "2024-01-03": { "1. open": "2", "2. high": "3", "3. low": "1", "4. close": "2.5", "5. volume": "20" },
+        "2024-01-02": { "1. open": "1", "2. high": "2", "3. low": "1", "4. close": "1.5", "5. volume": "10" },
+        "2023-12-29": { "1. open": "1", "2. high": "2", "3. low": "1", "4. close": "1", "5. volume": "10" },
+      },
+    });
+
+    const bars = await createProvider("alphavantage", { apiKey: "key" }).fetchSeries(request);
+
+    expect(bars.map((bar) => bar.date)).toEqual(["2024-01-02", "2024-01-03"]);
+    expect(bars[1].close).toBe(2.5);
+  });
+
+  it("reads alpha vantage intraday times in US/Eastern with daylight saving", async () => {
+    const bar = { "1. open": "1", "2. high": "2", "3. low": "1", "4. close": "1.5", "5. volume": "10" };
+    mockFetch({
+      "Meta Data": { "6. Time Zone": "US/Eastern" },
+      "Time Series (1min)": { "2024-07-01 09:30:00": bar, "2024-01-02 09:30:00": bar },
+    });
+
+    const bars = await createProvider("alphavantage", {}).fetchSeries({
+      ...request,
+      from: new Date("2024-01-01T00:00:00Z"),
+      to: new Date("2024-12-31T00:00:00Z"),
+      granularity: "minute",
+    });
+
+    expect(bars.map((entry) => new Date(entry.timestamp).toISOString())).toEqual([
+      "2024-01-02T14:30:00.000Z",
+      "2024-07-01T13:30:00.000Z",
+    ]);
+  });
+
+  it("surfaces alpha vantage rate limit notes as errors", async () => {
+    mockFetch({ Note: "Thank you for using Alpha Vantage!" });
+
+    await expect(createProvider("alphavantage", {}).fetchSeries(request)).rejects.toThrow(
+      "Thank you for using Alpha Vantage!",
+    );
+  });
+
+  it("maps finnhub candles and scales profile values", async () => {
+    mockFetch({ s: "ok", t: [1704153600], o: [1], h: [2], l: [0.5], c: [1.5], v: [10] });
+    const bars = await createProvider("finnhub", {}).fetchSeries(request);
+    expect(bars).toEqual([
+      { timestamp: 1704153600000, date: "2024-01-02", open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 },
+    ]);
+
+    mockFetch({ ticker: "AAPL", marketCapitalization: 2900000, shareOutstanding: 15000 });
+    const details = await createProvider("finnhub", {}).fetchDetails("AAPL");
+    expect(details.marketCap).toBe(2.9e12);
+    expect(details.sharesOutstanding).toBe(1.5e10);
+  });
+
+  it("requests the custom endpoint and derives dates", async () => {
+    const fetchMock = mockFetch([
+      { timestamp: Date.UTC(2024, 0, 2), open: 1, high: 2, low: 1, close: 2, volume: 5 },
+    ]);
+
+    const provider = createProvider("custom", { endpoint: "https://quotes.example.com/" });
+    const bars = await provider.fetchSeries(request);
+
+    expect(fetchMock.mock.calls[0][0]).toMatch(/^https:\/\/quotes\.example\.com\/series\/AAPL\?from=/);
+    expect(bars[0].date).toBe("2024-01-02");
+  });
+
+  it("requires an endpoint for the custom provider", () => {
+    expect(() => createProvider("custom", {})).toThrow(MarketDataError);
+  });
+});
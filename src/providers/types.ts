@@ -0,0 +1,111 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export type ProviderId = "polygon" | "alphavantage" | "finnhub" | "custom";
+
+/**
+ * Size of a single bar in a series
+ */
+export type Granularity = "minute" | "hour" | "day" | "week";
+
+/**
+ * One open/high/low/close/volume bar. `date` is the ISO day (YYYY-MM-DD) of `timestamp`.
+ */
+export interface OhlcvBar {
+  timestamp: number;
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Reference data about a ticker. Everything but the symbol is optional, since not
+ * every provider knows every field.
+ */
+export interface TickerDetails {
+  symbol: string;
+  name?: string;
+  exchange?: string;
+  currency?: string;
+  marketCap?: number;
+  sharesOutstanding?: number;
+  homepage?: string;
+  description?: string;
+  logoUrl?: string;
+  iconUrl?: string;
+}
+
+/**
+ * The most recent trade of a ticker
+ */
+export interface Trade {
+  price: number;
+  timestamp: number;
+}
+
+export interface SeriesRequest {
+  symbol: string;
+  from: Date;
+  to: Date;
+  granularity: Granularity;
+}
+
+/**
+ * A source of market data. Implementations translate a vendor API into the types above.
+ */
+export interface MarketDataProvider {
+  readonly id: ProviderId;
+  fetchDetails(symbol: string, signal?: AbortSignal): Promise<TickerDetails>;
+  fetchSeries(request: SeriesRequest, signal?: AbortSignal): Promise<OhlcvBar[]>;
+  fetchLastTrade(symbol: string, signal?: AbortSignal): Promise<Trade>;
+  /**
+   * Where to load an image of the ticker details from, e.g. with the key the vendor needs.
+   * Details keep the vendor's URL, so that no key ends up in the cache.
+   */
+  toImageUrl?(url: string): string;
+}
+
+export interface ProviderOptions {
+  apiKey?: string;
+  /**
+   * Replaces the vendor's origin, e.g. with a same-origin proxy that adds the key on the server
+   */
+  baseUrl?: string;
+  endpoint?: string;
+}
+
+/**
+ * Raised by providers when a request fails or the response can't be used
+ */
+export class MarketDataError extends Error {
+  public constructor(
+    message: string,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = "MarketDataError";
+  }
+}
+
+/**
+ * Raised when a provider can't be created from the configuration, trying again won't help
+ */
+export class ProviderConfigError extends MarketDataError {
+  public constructor(message: string) {
+    super(message);
+    this.name = "ProviderConfigError";
+  }
+}
@@ -0,0 +1,61 @@
+import { cachedFetch, clearQuoteCache, quoteCacheKey, readCachedEntry } from "./quote-cache";
+
+const key = quoteCacheKey({ provider: "polygon", symbol: "aapl", range: "4w", granularity: "day" });
+
+describe("quote cache", () => {
+  beforeEach(() => {
+    clearQuoteCache();
+    jest.useRealTimers();
+  });
+
+  it("builds keys from provider, symbol, range and granularity", () => {
+    expect(key).toBe("polygon|AAPL|4w|day");
+  });
+
+  it("shares in-flight requests", async () => {
+    const load = jest.fn().mockResolvedValue([1, 2, 3]);
+
+    const [first, second] = await Promise.all([cachedFetch(key, 60, load), cachedFetch(key, 60, load)]);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+  });
+
+  it("reloads after the ttl", async () => {
+    jest.useFakeTimers({ now: 0 });
+    const load = jest.fn().mockResolvedValueOnce("old").mockResolvedValueOnce("new");
+
+    expect(await cachedFetch(key, 60, load)).toBe("old");
+    jest.setSystemTime(30_000);
+    expect(await cachedFetch(key, 60, load)).toBe("old");
+    jest.setSystemTime(61_000);
+    expect(await cachedFetch(key, 60, load)).toBe("new");
+  });
+
+  it("restores entries from localStorage", async () => {
+    await cachedFetch(key, 60, () => Promise.resolve({ close: 1 }));
+    const stored = window.localStorage.getItem(`stock-ticker-overlay:${key}`);
+    clearQuoteCache();
+    window.localStorage.setItem(`stock-ticker-overlay:${key}`, stored as string);
+
+    const load = jest.fn();
+    expect(await cachedFetch(key, 60, load)).toEqual({ close: 1 });
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it("does not cache failures", async () => {
+    const load = jest.fn().mockRejectedValueOnce(new Error("429")).mockResolvedValueOnce("ok");
+
+    await expect(cachedFetch(key, 60, load)).rejects.toThrow("429");
+    expect(await cachedFetch(key, 60, load)).toBe("ok");
+  });
+
+  it("keeps expired entries readable", async () => {
+    jest.useFakeTimers({ now: 1_000 });
+    await cachedFetch(key, 60, () => Promise.resolve("old"));
+    jest.setSystemTime(1_000_000);
+
+    expect(readCachedEntry(key)).toEqual({ storedAt: 1_000, value: "old" });
+    expect(readCachedEntry("polygon|MSFT|4w|day")).toBeUndefined();
+  });
+});
@@ -0,0 +1,147 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Module level cache for market data, shared by all widget instances on the page.
+ * Entries are mirrored to localStorage so they survive a reload, and concurrent
+ * requests for the same key share one in-flight promise.
+ */
+
+export const DEFAULT_CACHE_TTL_SECONDS = 300;
+
+const STORAGE_PREFIX = "stock-ticker-overlay:";
+
+export interface CacheEntry<T> {
+  storedAt: number;
+  value: T;
+}
+
+export interface QuoteCacheKey {
+  provider: string;
+  symbol: string;
+  range: string;
+  granularity: string;
+}
+
+const memory = new Map<string, CacheEntry<unknown>>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Builds the cache key for one series or details request
+ */
+export const quoteCacheKey = ({ provider, symbol, range, granularity }: QuoteCacheKey): string =>
+  [provider, symbol.toUpperCase(), range, granularity].join("|");
+
+const getStorage = (): Storage | null => {
+  try {
+    return window.localStorage;
+  } catch {
+    // access throws when storage is disabled, e.g. in sandboxed iframes
+    return null;
+  }
+};
+
+const readStored = <T>(key: string): CacheEntry<T> | undefined => {
+  const raw = getStorage()?.getItem(STORAGE_PREFIX + key);
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw) as CacheEntry<T>;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Removes stored entries older than the given age, to make room when the storage quota is reached
+ */
+const pruneStored = (storage: Storage, maxAgeMs: number) => {
+  const now = Date.now();
+  for (let i = storage.length - 1; i >= 0; i--) {
+    const storageKey = storage.key(i);
+    if (!storageKey?.startsWith(STORAGE_PREFIX)) continue;
+    const entry = readStored(storageKey.slice(STORAGE_PREFIX.length));
+    if (!entry || now - entry.storedAt > maxAgeMs) {
+      storage.removeItem(storageKey);
+    }
+  }
+};
+
+const writeStored = <T>(key: string, entry: CacheEntry<T>, ttlMs: number) => {
+  const storage = getStorage();
+  if (!storage) return;
+  const raw = JSON.stringify(entry);
+  try {
+    storage.setItem(STORAGE_PREFIX + key, raw);
+  } catch {
+    pruneStored(storage, ttlMs);
+    try {
+      storage.setItem(STORAGE_PREFIX + key, raw);
+    } catch {
+      // the in-memory entry is still used
+    }
+  }
+};
+
+const isFresh = (entry: CacheEntry<unknown> | undefined, ttlMs: number): boolean =>
+  !!entry && Date.now() - entry.storedAt < ttlMs;
+
+/**
+ * Returns the cached value for the key if it is younger than the ttl, otherwise loads it.
+ * Loaders run without an abort signal, since other instances may be waiting for the same result.
+ *
+ * @param key the cache key, see quoteCacheKey
+ * @param ttlSeconds how long a cached value is used
+ * @param load fetches the value on a miss
+ */
+export const cachedFetch = <T>(key: string, ttlSeconds: number, load: () => Promise<T>): Promise<T> => {
+  const ttlMs = ttlSeconds * 1000;
+
+  let entry = memory.get(key) as CacheEntry<T> | undefined;
+  if (!isFresh(entry, ttlMs)) {
+    entry = readStored<T>(key);
+    if (entry) memory.set(key, entry);
+  }
+  if (entry && isFresh(entry, ttlMs)) {
+    return Promise.resolve(entry.value);
+  }
+
+  const pending = inFlight.get(key) as Promise<T> | undefined;
+  if (pending) return pending;
+
+  const request = load()
+    .then((value) => {
+      const fresh = { storedAt: Date.now(), value };
+      memory.set(key, fresh);
+      writeStored(key, fresh, ttlMs);
+      return value;
+    })
+    .finally(() => inFlight.delete(key));
+  inFlight.set(key, request);
+  return request;
+};
+
+/**
+ * Returns the last value stored for the key however old it is, e.g. to show while the provider fails
+ */
+export const readCachedEntry = <T>(key: string): CacheEntry<T> | undefined =>
+  (memory.get(key) as CacheEntry<T> | undefined) ?? readStored<T>(key);
+
+/**
+ * Drops all cached and stored entries
+ */
+export const clearQuoteCache = (): void => {
+  memory.clear();
+  inFlight.clear();
+  const storage = getStorage();
+  if (storage) pruneStored(storage, -1);
+};
@@ -0,0 +1,63 @@
+import {
+  getInitialRange,
+  getRangeGranularity,
+  getRangeStart,
+  getWarmupStart,
+  MAX_WEEKS,
+  parseWeeks,
+  toRangePresets,
+} from "./range-presets";
+
+describe("range presets", () => {
+  it("parses and caps the weeks attribute", () => {
+    expect(parseWeeks("4")).toBe(4);
+    expect(parseWeeks(2)).toBe(2);
+    expect(parseWeeks("520")).toBe(MAX_WEEKS);
+    expect(parseWeeks("")).toBeNull();
+    expect(parseWeeks("-3")).toBeNull();
+    expect(parseWeeks("many")).toBeNull();
+  });
+
+  it("prefers the default preset over the weeks", () => {
+    expect(getInitialRange("1Y", "4")).toBe("1Y");
+    expect(getInitialRange("", "6")).toBe("6w");
+    expect(getInitialRange("", "")).toBe("4w");
+  });
+
+  it("keeps known presets in display order", () => {
+    expect(toRangePresets(["1Y", "ytd", "bogus", "5D"])).toEqual(["5D", "YTD", "1Y"]);
+    expect(toRangePresets("1M, 3M")).toEqual(["1M", "3M"]);
+    expect(toRangePresets([])).toEqual([]);
+  });
+
+  it("computes the start of a range", () => {
+    const today = new Date(2024, 4, 15);
+
+    expect(getRangeStart("5D", today)).toEqual(new Date(2024, 4, 8));
+    expect(getRangeStart("3M", today)).toEqual(new Date(2024, 1, 15));
+    expect(getRangeStart("YTD", today)).toEqual(new Date(2024, 0, 1));
+    expect(getRangeStart("2Y", today)).toEqual(new Date(2022, 4, 15));
+    expect(getRangeStart("2w", today)).toEqual(new Date(2024, 4, 1));
+  });
+
+  it("starts earlier to cover the bars indicators need", () => {
+    const start = new Date(2024, 4, 15);
+
+    expect(getWarmupStart(start, "day", 0)).toEqual(start);
+    // 20 sessions are four weeks, plus some slack for holidays
+    expect(getWarmupStart(start, "day", 20)).toEqual(new Date(2024, 3, 12));
+    expect(getWarmupStart(start, "week", 10)).toEqual(new Date(2024, 2, 6));
+  });
+
+  it("chooses the bar size from the range", () => {
+    expect(getRangeGranularity("1D")).toBe("minute");
+    expect(getRangeGranularity("5D")).toBe("hour");
+    expect(getRangeGranularity("6M")).toBe("day");
+    expect(getRangeGranularity("4w")).toBe("day");
+    expect(getRangeGranularity("51w")).toBe("day");
+    expect(getRangeGranularity("1Y")).toBe("week");
+    expect(getRangeGranularity("52w")).toBe("week");
+    expect(getRangeGranularity("5Y")).toBe("week");
+    expect(getRangeGranularity("104w")).toBe("week");
+  });
+});
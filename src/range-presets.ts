@@ -0,0 +1,170 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Granularity } from "./providers";
+
+export type RangePresetId =
+  | "1D"
+  | "5D"
+  | "1M"
+  | "3M"
+  | "6M"
+  | "YTD"
+  | "1Y"
+  | "2Y"
+  | "5Y"
+  | "Max";
+
+export const rangePresetIds: RangePresetId[] = [
+  "1D",
+  "5D",
+  "1M",
+  "3M",
+  "6M",
+  "YTD",
+  "1Y",
+  "2Y",
+  "5Y",
+  "Max",
+];
+
+/**
+ * Presets shown when the configuration doesn't choose any
+ */
+export const DEFAULT_RANGE_PRESETS: RangePresetId[] = ["5D", "1M", "3M", "6M", "YTD", "1Y"];
+
+/**
+ * Upper bound of the `weeks` attribute
+ */
+export const MAX_WEEKS = 104;
+export const DEFAULT_WEEKS = 4;
+
+/**
+ * How far back "Max" reaches; providers return what they have within it
+ */
+export const MAX_RANGE_YEARS = 20;
+
+/**
+ * A preset, or the number of weeks from the `weeks` attribute (e.g. "4w")
+ */
+export type ChartRange = RangePresetId | `${number}w`;
+
+export const isRangePresetId = (value: unknown): value is RangePresetId =>
+  rangePresetIds.includes(value as RangePresetId);
+
+/**
+ * Parses the `weeks` attribute, which arrives as a string. Values beyond the maximum are capped,
+ * anything that isn't a positive number gives null.
+ */
+export const parseWeeks = (value: unknown): number | null => {
+  const weeks = Math.round(Number(value));
+  if (!Number.isFinite(weeks) || weeks < 1) return null;
+  return Math.min(weeks, MAX_WEEKS);
+};
+
+/**
+ * Normalizes the configured presets to known ids in display order.
+ * Plain strings may hold several comma separated ids.
+ */
+export const toRangePresets = (value: string | string[] | undefined): RangePresetId[] => {
+  const entries = (Array.isArray(value) ? value : String(value ?? "").split(",")).map(
+    (entry) => String(entry).trim().toUpperCase()
+  );
+  return rangePresetIds.filter((id) => entries.includes(id.toUpperCase()));
+};
+
+/**
+ * The range shown first: the configured default preset, otherwise the configured weeks
+ */
+export const getInitialRange = (defaultRange: string, weeks: unknown): ChartRange =>
+  isRangePresetId(defaultRange)
+    ? defaultRange
+    : `${parseWeeks(weeks) ?? DEFAULT_WEEKS}w`;
+
+/**
+ * First day of a range ending today
+ */
+export const getRangeStart = (range: ChartRange, today: Date): Date => {
+  const start = new Date(today);
+  switch (range) {
+    case "1D":
+      // back to the last session even after a long weekend; only that session is kept
+      start.setDate(start.getDate() - 4);
+      break;
+    case "5D":
+      // five trading days
+      start.setDate(start.getDate() - 7);
+      break;
+    case "1M":
+    case "3M":
+    case "6M":
+      start.setMonth(start.getMonth() - parseInt(range, 10));
+      break;
+    case "YTD":
+      start.setMonth(0, 1);
+      break;
+    case "1Y":
+    case "2Y":
+    case "5Y":
+      start.setFullYear(start.getFullYear() - parseInt(range, 10));
+      break;
+    case "Max":
+      start.setFullYear(start.getFullYear() - MAX_RANGE_YEARS);
+      break;
+    default:
+      start.setDate(start.getDate() - parseInt(range, 10) * 7);
+  }
+  return start;
+};
+
+/**
+ * Bar size for a range: minute or hour bars within days, daily bars for months and weekly
+ * bars for years
+ */
+export const getRangeGranularity = (range: ChartRange): Granularity => {
+  switch (range) {
+    case "1D":
+      return "minute";
+    case "5D":
+      return "hour";
+    case "1Y":
+    case "2Y":
+    case "5Y":
+    case "Max":
+      return "week";
+    default:
+      return range.endsWith("w") && parseInt(range, 10) >= 52 ? "week" : "day";
+  }
+};
+
+export const isIntraday = (granularity: Granularity): boolean =>
+  granularity === "minute" || granularity === "hour";
+
+// Sessions of a calendar week, to convert bars to calendar days
+const TRADING_DAYS_PER_WEEK = 5;
+
+/**
+ * Moves the start of a range back by the given number of bars, e.g. for indicators that need
+ * earlier prices. Weekends and holidays are covered generously, extra bars are dropped later.
+ */
+export const getWarmupStart = (start: Date, granularity: Granularity, bars: number): Date => {
+  if (bars <= 0) return start;
+  const barsPerDay = granularity === "minute" ? 390 : granularity === "hour" ? 7 : 1;
+  const days =
+    granularity === "week"
+      ? bars * 7
+      : Math.ceil(((bars / barsPerDay) * 7) / TRADING_DAYS_PER_WEEK) + 5;
+  const warmupStart = new Date(start);
+  warmupStart.setDate(warmupStart.getDate() - days);
+  return warmupStart;
+};
@@ -0,0 +1,74 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React, { ReactElement } from "react";
+import { ChartRange, RangePresetId } from "./range-presets";
+import { useMessages } from "./locale-context";
+import { useTheme } from "./theme-context";
+
+export interface RangeSelectorProps {
+  presets: RangePresetId[];
+  value: ChartRange;
+  onChange: (range: RangePresetId) => void;
+}
+
+/**
+ * Segmented control to switch the range of the graph
+ */
+export const RangeSelector = ({ presets, value, onChange }: RangeSelectorProps): ReactElement => {
+  const messages = useMessages();
+  const theme = useTheme();
+  return (
+    <div
+      className="stockwidget-ranges"
+      role="group"
+      aria-label={messages.range}
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        gap: "2px",
+        marginTop: "0.5rem",
+        padding: "2px",
+        borderRadius: "8px",
+        background: theme.subtle,
+        width: "fit-content",
+      }}
+    >
+      {presets.map((preset) => {
+        const selected = preset === value;
+        return (
+          <button
+            key={preset}
+            type="button"
+            aria-pressed={selected}
+            onClick={() => onChange(preset)}
+            style={{
+              font: "inherit",
+              fontSize: "0.75rem",
+              fontWeight: 600,
+              lineHeight: "1.2",
+              padding: "0.2rem 0.5rem",
+              border: "none",
+              borderRadius: "6px",
+              cursor: "pointer",
+              color: selected ? theme.inverseText : theme.textMuted,
+              background: selected ? theme.inverse : "transparent",
+            }}
+          >
+            {preset}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React, { ReactElement } from "react";
+import { useFormatters, useMessages } from "./locale-context";
+import { useTheme } from "./theme-context";
+import { RangeStats } from "./range-stats";
+import { PriceRange } from "./useStockSeries";
+
+interface RangeStatsRowProps {
+  stats: RangeStats;
+  /**
+   * High and low of the last 52 weeks, left out until loaded
+   */
+  yearRange: PriceRange | null;
+  currency?: string;
+}
+
+/**
+ * Key figures of the shown range next to the 52 week high and low
+ */
+export const RangeStatsRow = ({ stats, yearRange, currency }: RangeStatsRowProps): ReactElement => {
+  const formatters = useFormatters(currency);
+  const messages = useMessages();
+  const theme = useTheme();
+
+  const facts: Array<[string, string]> = [
+    [messages.rangeHigh, formatters.price(stats.high)],
+    [messages.rangeLow, formatters.price(stats.low)],
+    [messages.averageClose, formatters.price(stats.averageClose)],
+  ];
+  if (stats.volatility !== null) {
+    facts.push([messages.volatility, formatters.percent(stats.volatility)]);
+  }
+  if (yearRange) {
+    facts.push(
+      [messages.yearHigh, formatters.price(yearRange.high)],
+      [messages.yearLow, formatters.price(yearRange.low)]
+    );
+  }
+
+  return (
+    <dl
+      className="stockwidget-stats"
+      aria-label={messages.statistics}
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        gap: "0.25rem 1rem",
+        margin: "0.5rem 0 0",
+        fontSize: "0.8rem",
+        lineHeight: "1.4",
+        color: theme.textMuted,
+        fontVariantNumeric: "tabular-nums",
+      }}
+    >
+      {facts.map(([label, value]) => (
+        <div key={label} style={{ display: "flex", gap: "0.3rem" }}>
+          <dt>{label}</dt>
+          <dd style={{ margin: 0, fontWeight: 600, color: theme.text }}>{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
@@ -0,0 +1,37 @@
+import { OhlcvBar } from "./providers";
+import { getExtremes, getRangeStats } from "./range-stats";
+
+const bar = (close: number, high = close, low = close): OhlcvBar => ({
+  timestamp: 0,
+  date: "2024-01-01",
+  open: close,
+  high,
+  low,
+  close,
+  volume: 0,
+});
+
+describe("range statistics", () => {
+  it("finds the first highest and lowest value, skipping gaps", () => {
+    expect(getExtremes([3, null, 5, 1, 5, 1])).toEqual({ highIndex: 2, lowIndex: 3 });
+    expect(getExtremes([2, 4], [1, 0])).toEqual({ highIndex: 1, lowIndex: 1 });
+    expect(getExtremes([null])).toBeNull();
+  });
+
+  it("uses the intraday extremes and annualizes the volatility", () => {
+    const stats = getRangeStats([bar(100, 104), bar(110), bar(99, 100, 95)], "day");
+
+    expect(stats?.high).toBe(110);
+    expect(stats?.low).toBe(95);
+    expect(stats?.averageClose).toBeCloseTo(103);
+    const returns = [Math.log(1.1), Math.log(99 / 110)];
+    const mean = (returns[0] + returns[1]) / 2;
+    const deviation = Math.sqrt((returns[0] - mean) ** 2 + (returns[1] - mean) ** 2);
+    expect(stats?.volatility).toBeCloseTo(deviation * Math.sqrt(252) * 100);
+  });
+
+  it("needs three bars for a volatility", () => {
+    expect(getRangeStats([bar(1), bar(2)], "week")?.volatility).toBeNull();
+    expect(getRangeStats([], "day")).toBeNull();
+  });
+});
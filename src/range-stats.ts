@@ -0,0 +1,77 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Granularity, OhlcvBar } from "./providers";
+
+export interface RangeStats {
+  high: number;
+  low: number;
+  averageClose: number;
+  /**
+   * Annualized standard deviation of the returns in percent, null with fewer than three bars
+   */
+  volatility: number | null;
+}
+
+export interface PriceExtremes {
+  highIndex: number;
+  lowIndex: number;
+}
+
+// Bars of a trading year, to annualize the volatility
+const barsPerYear: Record<Granularity, number> = {
+  minute: 252 * 390,
+  hour: 252 * 7,
+  day: 252,
+  week: 52,
+};
+
+/**
+ * Index of the highest and lowest value; the first one wins a tie
+ */
+export const getExtremes = (
+  highs: Array<number | null>,
+  lows: Array<number | null> = highs
+): PriceExtremes | null => {
+  let highIndex = -1;
+  let lowIndex = -1;
+  highs.forEach((value, i) => {
+    if (value !== null && (highIndex < 0 || value > (highs[highIndex] as number))) highIndex = i;
+  });
+  lows.forEach((value, i) => {
+    if (value !== null && (lowIndex < 0 || value < (lows[lowIndex] as number))) lowIndex = i;
+  });
+  return highIndex < 0 || lowIndex < 0 ? null : { highIndex, lowIndex };
+};
+
+/**
+ * High, low, average close and volatility of the bars of a range
+ */
+export const getRangeStats = (bars: OhlcvBar[], granularity: Granularity): RangeStats | null => {
+  if (!bars.length) return null;
+  const closes = bars.map((bar) => bar.close);
+  const returns = closes.slice(1).map((close, i) => Math.log(close / closes[i]));
+  let volatility: number | null = null;
+  if (returns.length > 1) {
+    const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+    const variance =
+      returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1);
+    volatility = Math.sqrt(variance * barsPerYear[granularity]) * 100;
+  }
+  return {
+    high: Math.max(...bars.map((bar) => bar.high)),
+    low: Math.min(...bars.map((bar) => bar.low)),
+    averageClose: closes.reduce((sum, close) => sum + close, 0) / closes.length,
+    volatility,
+  };
+};
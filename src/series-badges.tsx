@@ -0,0 +1,89 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import React, { ReactElement } from "react";
+import { useFormatters, useMessages } from "./locale-context";
+import { formatMessage, MessageKey } from "./messages";
+import { useTheme } from "./theme-context";
+import { SeriesError } from "./useStockSeries";
+
+export const seriesErrorMessages: Record<SeriesError, MessageKey> = {
+  missing: "credentialsMissing",
+  expired: "credentialsExpired",
+  signedOut: "credentialsSignedOut",
+  rejected: "credentialsRejected",
+  invalid: "credentialsInvalid",
+  misconfigured: "providerMisconfigured",
+  failed: "loadFailed",
+};
+
+export const badgeStyle: React.CSSProperties = {
+  display: "inline-block",
+  padding: "0 0.35rem",
+  borderRadius: "4px",
+  fontSize: "0.7rem",
+  fontWeight: 600,
+  lineHeight: "1.4em",
+};
+
+interface SeriesBadgesProps {
+  isDemo: boolean;
+  staleSince: number | null;
+  /**
+   * Shown as a badge where there is no room for the full error with its buttons
+   */
+  error?: SeriesError | null;
+}
+
+/**
+ * Marks made up and outdated prices, so that they never pass for current ones
+ */
+export const SeriesBadges = ({
+  isDemo,
+  staleSince,
+  error = null,
+}: SeriesBadgesProps): ReactElement => {
+  const formatters = useFormatters();
+  const messages = useMessages();
+  const theme = useTheme();
+
+  return (
+    <>
+      {error && (
+        <span
+          className="stockwidget-errorBadge"
+          style={{ ...badgeStyle, color: theme.down, background: theme.subtle }}
+        >
+          {messages[seriesErrorMessages[error]]}
+        </span>
+      )}
+      {isDemo && (
+        <span
+          className="stockwidget-demoBadge"
+          style={{ ...badgeStyle, color: theme.inverseText, background: theme.inverse }}
+        >
+          {messages.demoData}
+        </span>
+      )}
+      {staleSince !== null && (
+        <span
+          className="stockwidget-staleBadge"
+          style={{ ...badgeStyle, color: theme.text, background: theme.subtle }}
+        >
+          {formatMessage(messages.asOf, {
+            time: formatters.dateTime(new Date(staleSince).toISOString()),
+          })}
+        </span>
+      )}
+    </>
+  );
+};
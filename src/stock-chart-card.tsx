@@ -0,0 +1,651 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React, { ReactElement, useState, useEffect } from "react";
+import { useContainerSize } from "./useContainerSize";
+import {
+  DataSourceConfig,
+  getBarDate,
+  useComparisonSeries,
+  useFiftyTwoWeekRange,
+  useStockSeries,
+} from "./useStockSeries";
+import { appendTrade, LiveTransport, useLivePrice, usePriceFlash } from "./useLivePrice";
+import { ChangeArrow } from "./change-arrow";
+import {
+  ChartLevel,
+  ChartOverlay,
+  ChartSeries,
+  ChartType,
+  PriceChart,
+  visuallyHidden,
+} from "./price-chart";
+import { ScaleMode } from "./chart-geometry";
+import { alignSeriesByDate, rebaseToPercent } from "./chart-geometry";
+import { ChartRange, isIntraday, RangePresetId } from "./range-presets";
+import { aggregateBars, getAggregateIndices, lttbIndices } from "./downsample";
+import { RangeSelector } from "./range-selector";
+import { CompanyLogo } from "./company-logo";
+import { CompanyInfo } from "./company-info";
+import { useFormatters, useMessages } from "./locale-context";
+import { formatMessage, MessageKey } from "./messages";
+import { useTheme } from "./theme-context";
+import { withAlpha } from "./theme";
+import { getBarEnd, getExchangeCalendar, getMarketSession } from "./market-calendar";
+import { useMarketSession } from "./useMarketSession";
+import { ExtendedHoursPrice, MarketStatus } from "./market-status";
+import { PriceAlerts, ReferenceLevel } from "./price-levels";
+import { usePriceAlert } from "./usePriceAlert";
+import {
+  computeIndicator,
+  getIndicatorWarmup,
+  IndicatorConfig,
+  IndicatorType,
+} from "./indicators";
+import { getRangeStats } from "./range-stats";
+import { RangeStatsRow } from "./range-stats-row";
+import { badgeStyle, SeriesBadges, seriesErrorMessages } from "./series-badges";
+
+export interface LiveSettings {
+  enabled: boolean;
+  transport: LiveTransport;
+  intervalSeconds: number;
+  socketUrl: string;
+  /**
+   * Shows trades outside the regular session next to the regular close, instead of adding
+   * them to the graph
+   */
+  extendedHours: boolean;
+}
+
+export interface StockChartCardProps {
+  symbol: string;
+  /**
+   * The range shown first
+   */
+  range: ChartRange;
+  presets: RangePresetId[];
+  /**
+   * Logo URL from the configuration, preferred over the one from the ticker details
+   */
+  logo: string;
+  /**
+   * Shows the company name and its reference data
+   */
+  showinfo: boolean;
+  stockgraphcolor: string;
+  charttype: ChartType;
+  showvolume: boolean;
+  /**
+   * Shows key figures of the range and the 52 week high and low beneath the graph
+   */
+  showstats: boolean;
+  showaxes: boolean;
+  gridlines: boolean;
+  scalemode: ScaleMode;
+  /**
+   * Peers or benchmarks; when given, all series are drawn as percent change from the range start
+   */
+  compare: string[];
+  /**
+   * Labelled prices drawn as lines, e.g. the IPO price or a target
+   */
+  levels: ReferenceLevel[];
+  alerts: PriceAlerts;
+  /**
+   * Moving averages and bands over the price; left out when comparing
+   */
+  indicators: IndicatorConfig[];
+  source: DataSourceConfig;
+  live: LiveSettings;
+}
+
+// Narrowest candle in pixels before neighbouring bars are merged
+const MIN_CANDLE_WIDTH = 4;
+
+/**
+ * First and last date of the days shown after zooming into a selection
+ */
+interface ZoomWindow {
+  start: string;
+  end: string;
+}
+
+// Indices of the dates within the window, or null when too few are left to draw a graph
+const getZoomIndices = (dates: string[], zoom: ZoomWindow | null): number[] | null => {
+  if (!zoom) return null;
+  const indices = dates.flatMap((date, i) => (date >= zoom.start && date <= zoom.end ? [i] : []));
+  return indices.length > 1 ? indices : null;
+};
+
+// Colors of the compared series and indicators, the primary series keeps the graph color
+const overlayColors = ["#60a5fa", "#f59e0b", "#a78bfa", "#f472b6", "#2dd4bf"];
+
+const indicatorMessages: Record<IndicatorType, MessageKey> = {
+  sma: "indicatorSma",
+  ema: "indicatorEma",
+  bollinger: "indicatorBollinger",
+};
+
+/**
+ * The full card of a single symbol: latest price, change over the range and the graph
+ */
+export const StockChartCard = ({
+  symbol,
+  range,
+  presets,
+  logo,
+  showinfo,
+  stockgraphcolor,
+  charttype,
+  showvolume,
+  showstats,
+  showaxes,
+  gridlines,
+  scalemode,
+  compare,
+  levels,
+  alerts,
+  indicators,
+  source,
+  live,
+}: StockChartCardProps): ReactElement => {
+  const [containerRef, containerSize] = useContainerSize<HTMLDivElement>();
+
+  // Base sizing; graph scales with container width
+  const fontSize = "1rem";
+  const svgHeight = 160;
+  const dailyChangeFontSize = "0.85rem";
+
+  const [activeRange, setActiveRange] = useState<ChartRange>(range);
+  const [zoom, setZoom] = useState<ZoomWindow | null>(null);
+
+  useEffect(() => {
+    setActiveRange(range);
+    setZoom(null);
+  }, [range]);
+
+  const selectRange = (preset: ChartRange) => {
+    setActiveRange(preset);
+    setZoom(null);
+  };
+
+  const comparedSymbols = compare.filter((entry) => entry !== symbol);
+  const activeIndicators = comparedSymbols.length ? [] : indicators;
+
+  const {
+    bars: seriesBars,
+    history,
+    granularity,
+    details,
+    latestClose,
+    loading,
+    error,
+    signIn,
+    retry,
+    staleSince,
+    isDemo,
+    dataSource,
+  } = useStockSeries(symbol, activeRange, source, getIndicatorWarmup(activeIndicators));
+  const comparisons = useComparisonSeries(comparedSymbols, activeRange, source);
+  const yearRange = useFiftyTwoWeekRange(symbol, source, showstats);
+
+  const liveTrade = useLivePrice({
+    symbol,
+    ...live,
+    provider: dataSource?.provider ?? null,
+    apiKey: dataSource?.apiKey,
+  });
+
+  const calendar = getExchangeCalendar(details?.exchange);
+  const { session, now } = useMarketSession(calendar);
+  const tradeSession =
+    calendar && liveTrade ? getMarketSession(calendar, liveTrade.timestamp) : null;
+  const isExtendedTrade =
+    live.extendedHours && (tradeSession === "pre" || tradeSession === "after");
+  const regularTrade = isExtendedTrade ? null : liveTrade;
+
+  // The live trade extends the series, updating today's bar if there already is one
+  const closingBars = regularTrade
+    ? appendTrade(seriesBars, regularTrade, granularity, calendar?.timeZone)
+    : seriesBars;
+  const closingPrices = closingBars.map((bar) => bar.close);
+  const closingDates = closingBars.map((bar) => getBarDate(bar, granularity));
+  const rangeStats = showstats ? getRangeStats(closingBars, granularity) : null;
+  const latestPrice = regularTrade?.price ?? latestClose;
+  const priceFlash = usePriceFlash(regularTrade?.price ?? null);
+
+  const lastBar = seriesBars[seriesBars.length - 1];
+  const updatedAt =
+    regularTrade?.timestamp ??
+    (calendar && lastBar ? getBarEnd(calendar, lastBar, granularity, now) : null);
+  const extendedPrice: ExtendedHoursPrice | null =
+    liveTrade && isExtendedTrade
+      ? {
+          session: tradeSession,
+          price: liveTrade.price,
+          change: latestClose ? ((liveTrade.price - latestClose) / latestClose) * 100 : null,
+        }
+      : null;
+
+  const formatters = useFormatters(details?.currency);
+  const messages = useMessages();
+  const theme = useTheme();
+  const alertDirection = usePriceAlert(containerRef, symbol, latestPrice, alerts);
+  const alertColor = alertDirection === "below" ? theme.down : theme.up;
+  const formatDateShort = (date: string) => formatters.dateShort(date, isIntraday(granularity));
+  // the key for branding images is only added here, so that it stays out of the cache
+  const toImageUrl = (url: string | undefined) =>
+    url && dataSource?.provider.toImageUrl ? dataSource.provider.toImageUrl(url) : url;
+
+  // Price change
+  let rangeChange: number | null = null;
+  if (closingPrices.length > 1) {
+    rangeChange =
+      closingPrices[closingPrices.length - 1] - closingPrices[0];
+  }
+  const changeColor =
+    rangeChange !== null && rangeChange >= 0 ? theme.up : theme.down;
+  const changePercent =
+    rangeChange !== null && closingPrices.length > 1
+      ? (rangeChange / (closingPrices[0] || 1)) * 100
+      : null;
+  const startDateLabel = closingDates.length
+    ? formatters.dateNumeric(closingDates[0])
+    : "";
+  const sinceLabel = startDateLabel
+    ? formatMessage(messages.since, { date: startDateLabel })
+    : messages.sinceStart;
+
+  // Graph color: use the user-specified color, or default to green or red based on change
+  const graphColor = stockgraphcolor || changeColor;
+
+  // Comparisons share the dates of all series and are rebased to 0% at the range start
+  const isComparison = comparisons.length > 0;
+  let chartDates = closingDates;
+  let seriesValues: Array<Array<number | null>> = [closingPrices];
+  if (isComparison) {
+    const aligned = alignSeriesByDate([
+      { dates: closingDates, values: closingPrices },
+      ...comparisons.map((entry) => ({ dates: entry.dates, values: entry.prices })),
+    ]);
+    chartDates = aligned.dates;
+    seriesValues = aligned.values;
+  }
+  // A zoomed graph keeps the days of the window, compared series start at 0% at its left edge
+  const zoomIndices = getZoomIndices(chartDates, zoom);
+  if (zoomIndices) {
+    chartDates = zoomIndices.map((i) => chartDates[i]);
+    seriesValues = seriesValues.map((values) => zoomIndices.map((i) => values[i]));
+  }
+  let chartSeries: ChartSeries[] = isComparison
+    ? [symbol, ...comparisons.map((entry) => entry.symbol)].map((label, i) => ({
+        id: label,
+        label,
+        color: i === 0 ? graphColor : overlayColors[(i - 1) % overlayColors.length],
+        values: rebaseToPercent(seriesValues[i]),
+      }))
+    : [{ id: symbol, label: symbol, color: graphColor, values: seriesValues[0] }];
+
+  // Levels are prices, they don't fit the percent scale of comparisons
+  const chartLevels: ChartLevel[] = isComparison
+    ? []
+    : [
+        ...levels.map((level, i) => ({
+          id: `level-${i}`,
+          label: level.label,
+          value: level.price,
+          color: level.color || theme.textMuted,
+        })),
+        ...(["above", "below"] as const).flatMap((direction) => {
+          const threshold = alerts[direction];
+          if (threshold === null) return [];
+          return [
+            {
+              id: `alert-${direction}`,
+              label: direction === "above" ? messages.alertUpper : messages.alertLower,
+              value: threshold,
+              color: direction === "above" ? theme.up : theme.down,
+              dashed: true,
+              highlighted: alertDirection === direction,
+            },
+          ];
+        }),
+      ];
+
+  // Indicators run over the warm-up bars too, so that they start at the left edge
+  const indicatorPrices = [...history.map((bar) => bar.close), ...closingPrices];
+  const toVisible = (values: Array<number | null>) => values.slice(history.length);
+  let chartOverlays: ChartOverlay[] = isComparison
+    ? []
+    : activeIndicators.map((indicator, i) => {
+        const { values, band } = computeIndicator(indicator, indicatorPrices);
+        return {
+          id: `${indicator.type}-${indicator.period}-${i}`,
+          label: formatMessage(messages[indicatorMessages[indicator.type]], {
+            period: String(indicator.period),
+          }),
+          color: indicator.color || overlayColors[i % overlayColors.length],
+          lineStyle: indicator.lineStyle,
+          values: toVisible(values),
+          band: band && { upper: toVisible(band.upper), lower: toVisible(band.lower) },
+        };
+      });
+  const pickOverlays = (indices: number[]) => {
+    const pick = (values: Array<number | null>) => indices.map((i) => values[i]);
+    chartOverlays = chartOverlays.map((overlay) => ({
+      ...overlay,
+      values: pick(overlay.values),
+      band: overlay.band && { upper: pick(overlay.band.upper), lower: pick(overlay.band.lower) },
+    }));
+  };
+  // without comparisons the dates are those of the bars
+  const visibleBars = zoomIndices ? zoomIndices.map((i) => closingBars[i]) : closingBars;
+  if (zoomIndices) pickOverlays(zoomIndices);
+
+  // Keep about one point per pixel, or merge bars when candles would get too narrow.
+  // The header still uses the full series.
+  const chartWidth = Math.floor(containerSize.width);
+  const isCandleChart =
+    !isComparison && (charttype === "candlestick" || charttype === "ohlc-bars");
+  let chartBars = isComparison ? undefined : visibleBars;
+  if (chartWidth > 0 && isCandleChart) {
+    const maxCandles = Math.floor(chartWidth / MIN_CANDLE_WIDTH);
+    chartBars = aggregateBars(visibleBars, maxCandles);
+    chartDates = chartBars.map((bar) => getBarDate(bar, granularity));
+    chartSeries = [{ ...chartSeries[0], values: chartBars.map((bar) => bar.close) }];
+    pickOverlays(getAggregateIndices(visibleBars.length, maxCandles));
+  } else if (chartWidth > 0 && chartDates.length > chartWidth) {
+    // compared series share the indices picked from their average
+    const shape = chartDates.map((_, i) => {
+      const values = chartSeries.flatMap((entry) =>
+        entry.values[i] === null ? [] : [entry.values[i] as number]
+      );
+      return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+    });
+    const indices = lttbIndices(shape, chartWidth);
+    chartDates = indices.map((i) => chartDates[i]);
+    chartSeries = chartSeries.map((entry) => ({
+      ...entry,
+      values: indices.map((i) => entry.values[i]),
+    }));
+    chartBars = chartBars && indices.map((i) => visibleBars[i]);
+    pickOverlays(indices);
+  }
+
+  const formatPercent = formatters.change;
+
+  // Styles
+  const containerStyle: React.CSSProperties = {
+    padding: "1rem 0.5rem 0.5rem",
+    width: "100%",
+    boxSizing: "border-box",
+    minHeight: "80px",
+    fontSize,
+    fontFamily: "\"Space Grotesk\", \"Helvetica Neue\", Arial, sans-serif",
+    color: theme.text,
+  };
+
+  const headerStyle: React.CSSProperties = {
+    display: "flex",
+    flexDirection: "column",
+    alignItems: "flex-start",
+    gap: "0.15rem",
+    lineHeight: "20px",
+    fontSize,
+  };
+
+  const headerRowStyle: React.CSSProperties = {
+    width: "100%",
+    display: "flex",
+    alignItems: "baseline",
+    justifyContent: "space-between",
+    gap: "0.5rem",
+  };
+
+  const priceInfoStyle: React.CSSProperties = {
+    textAlign: "left",
+    lineHeight: "1.3em",
+  };
+
+  const errorButtonStyle: React.CSSProperties = {
+    marginLeft: "0.5rem",
+    font: "inherit",
+    color: "inherit",
+    background: "none",
+    border: "1px solid currentColor",
+    borderRadius: "4px",
+    cursor: "pointer",
+  };
+
+  return (
+    <div ref={containerRef} className="stockwidget-container" style={containerStyle}>
+      <div className="stockwidget-header" style={headerStyle}>
+        <div className="stockwidget-headerRow" style={headerRowStyle}>
+          <div className="stockwidget-price" style={priceInfoStyle}>
+            {latestPrice !== null && (
+              <div
+                className="stockwidget-latestPrice"
+                style={{
+                  fontSize,
+                  fontWeight: 600,
+                  fontVariantNumeric: "tabular-nums",
+                  margin: "0 -0.25rem",
+                  padding: "0 0.25rem",
+                  borderRadius: "4px",
+                  transition: "background-color 400ms ease, color 400ms ease",
+                  outline: alertDirection ? `1px solid ${alertColor}` : "none",
+                  backgroundColor:
+                    priceFlash === "up"
+                      ? withAlpha(theme.up, 0.3)
+                      : priceFlash === "down"
+                        ? withAlpha(theme.down, 0.3)
+                        : "transparent",
+                }}
+              >
+                {formatters.price(latestPrice)}
+              </div>
+            )}
+          </div>
+          <div
+            className="stockwidget-symbol"
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "0.4rem",
+              fontWeight: 600,
+              letterSpacing: "-0.01em",
+              textAlign: "right",
+            }}
+          >
+            <CompanyLogo
+              symbol={symbol}
+              sources={[logo, toImageUrl(details?.iconUrl), toImageUrl(details?.logoUrl)]}
+            />
+            <span>
+              {symbol}
+              {showinfo && details?.name && (
+                <span
+                  className="stockwidget-companyName"
+                  style={{
+                    display: "block",
+                    fontSize: "0.75rem",
+                    fontWeight: 400,
+                    color: theme.textMuted,
+                  }}
+                >
+                  {details.name}
+                </span>
+              )}
+            </span>
+          </div>
+        </div>
+        {rangeChange !== null && (
+          <div
+            style={{
+              color: theme.text,
+              fontSize: dailyChangeFontSize,
+              fontWeight: 600,
+              fontVariantNumeric: "tabular-nums",
+              display: "flex",
+              alignItems: "center",
+              gap: "0.35rem",
+            }}
+          >
+            <ChangeArrow up={rangeChange >= 0} color={changeColor} />
+            {changePercent !== null && (
+              <span style={{ color: changeColor }}>
+                {formatters.change(changePercent)}
+              </span>
+            )}
+            <span style={{ fontWeight: 400, color: theme.textMuted }}>
+              {sinceLabel}
+            </span>
+          </div>
+        )}
+        {calendar && session && closingPrices.length > 0 && (
+          <MarketStatus
+            session={session}
+            updatedAt={updatedAt}
+            timeZone={calendar.timeZone}
+            extended={extendedPrice}
+            currency={details?.currency}
+          />
+        )}
+        {(isDemo || staleSince !== null || alertDirection) && (
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "0.3rem" }}>
+            {alertDirection && latestPrice !== null && (
+              <span
+                className="stockwidget-alertBadge"
+                role="status"
+                style={{ ...badgeStyle, color: theme.inverseText, background: alertColor }}
+              >
+                {formatMessage(
+                  alertDirection === "above" ? messages.alertAbove : messages.alertBelow,
+                  { price: formatters.price(alerts[alertDirection] ?? latestPrice) }
+                )}
+              </span>
+            )}
+            <SeriesBadges isDemo={isDemo} staleSince={staleSince} />
+          </div>
+        )}
+        {error && (
+          <div
+            className="stockwidget-error"
+            role="alert"
+            style={{ fontSize: dailyChangeFontSize, color: theme.down }}
+          >
+            {messages[seriesErrorMessages[error]]}
+            {error === "failed" ? (
+              <button type="button" onClick={retry} style={errorButtonStyle}>
+                {messages.retry}
+              </button>
+            ) : (
+              signIn && (
+                <button type="button" onClick={signIn} style={errorButtonStyle}>
+                  {messages.signIn}
+                </button>
+              )
+            )}
+          </div>
+        )}
+      </div>
+      {loading && closingPrices.length < 2 && (
+        <div
+          className="stockwidget-skeleton"
+          role="status"
+          aria-busy="true"
+          style={{
+            height: svgHeight,
+            marginTop: "0.5rem",
+            borderRadius: "6px",
+            background: `linear-gradient(to top, ${theme.subtle}, transparent)`,
+          }}
+        >
+          <span style={visuallyHidden}>{messages.loading}</span>
+        </div>
+      )}
+      {closingPrices.length > 1 && (
+        <PriceChart
+          dates={chartDates}
+          series={chartSeries}
+          // candles need prices, comparisons are drawn as lines
+          chartType={
+            isComparison ? (charttype === "area" ? "area" : "line") : charttype
+          }
+          bars={chartBars}
+          showVolume={showvolume}
+          levels={chartLevels}
+          overlays={chartOverlays}
+          showExtremes={!isComparison}
+          axes={showaxes}
+          gridlines={gridlines}
+          scaleMode={scalemode}
+          percentValues={isComparison}
+          onZoom={(start, end) => setZoom({ start, end })}
+          zoomed={zoomIndices !== null}
+          onResetZoom={() => selectRange(range)}
+          height={svgHeight}
+          label={formatMessage(messages.chartLabel, {
+            symbol: chartSeries.map((entry) => entry.label).join(", "),
+          })}
+          formatValue={isComparison ? formatPercent : formatters.price}
+          formatDate={formatDateShort}
+        />
+      )}
+      {presets.length > 0 && (
+        <RangeSelector presets={presets} value={activeRange} onChange={selectRange} />
+      )}
+      {rangeStats && (
+        <RangeStatsRow stats={rangeStats} yearRange={yearRange} currency={details?.currency} />
+      )}
+      {showinfo && details && <CompanyInfo details={details} />}
+      {isComparison && (
+        <ul
+          className="stockwidget-legend"
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            gap: "0.25rem 0.75rem",
+            margin: "0.4rem 0 0",
+            padding: 0,
+            listStyle: "none",
+            fontSize: dailyChangeFontSize,
+            fontVariantNumeric: "tabular-nums",
+          }}
+        >
+          {chartSeries.map((entry) => {
+            const last = [...entry.values].reverse().find((value) => value !== null);
+            return (
+              <li key={entry.id} style={{ display: "flex", alignItems: "center", gap: "0.3rem" }}>
+                <span
+                  aria-hidden="true"
+                  style={{
+                    width: "0.6rem",
+                    height: "0.6rem",
+                    borderRadius: "2px",
+                    background: entry.color,
+                  }}
+                />
+                <span style={{ fontWeight: 600 }}>{entry.label}</span>
+                {last !== undefined && last !== null && (
+                  <span style={{ color: theme.textMuted }}>{formatPercent(last)}</span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,574 @@
 import React from "react"
-import {screen, render} from "@testing-library/react"
+import {screen, render, act, fireEvent, waitFor, within} from "@testing-library/react"
 
-import {StockTickerOverlay} from "./stock-ticker-overlay";
+import {StockTickerOverlay, StockTickerOverlayProps, toSymbolList} from "./stock-ticker-overlay";
+import {clearQuoteCache} from "./quote-cache";
+import {CompanyInfo, toHomepageUrl} from "./company-info";
+import {PRICE_ALERT_EVENT} from "./price-levels";
+import {installReplaySocket, REPLAY_SOCKET_URL, REPLAY_TICK_INTERVAL_MS} from "../dev/replay-socket";
+
+const baseProps: StockTickerOverlayProps = {
+    contentLanguage: "en_US",
+    symbol: "VNI",
+    weeks: 2,
+    rangepresets: "",
+    defaultrange: "",
+    logo: "",
+    showinfo: "",
+    stockgraphcolor: "",
+    charttype: "",
+    showvolume: "",
+    showstats: "",
+    showaxes: "",
+    gridlines: "",
+    scalemode: "",
+    compare: "",
+    levels: "",
+    alertabove: "",
+    alertbelow: "",
+    indicators: "",
+    provider: "polygon",
+    providerendpoint: "",
+    credentialsource: "",
+    apikey: "",
+    proxyurl: "",
+    integration: "",
+    cachettl: "",
+    live: "",
+    livetransport: "",
+    liveinterval: "",
+    livesocketurl: "",
+    extendedhours: "",
+    layout: "",
+    labels: "",
+    theme: "",
+};
+
+// the chart's data table repeats the prices
+const latestPrice = {selector: ".stockwidget-latestPrice"};
 
 describe("StockTickerOverlay", () => {
-    it("should render the component", () => {
-        render(<StockTickerOverlay contentLanguage="en_US" symbol="World" weeks="2"/>);
+    it("should render the component", async () => {
+        render(<StockTickerOverlay {...baseProps}/>);
+
+        expect(screen.getByText("VNI")).toBeInTheDocument();
+        expect(await screen.findByText("$185.06", latestPrice)).toBeInTheDocument();
+    })
+
+    it("should show missing credentials instead of prices", async () => {
+        render(<StockTickerOverlay {...baseProps} symbol="AAPL"/>);
+
+        expect(await screen.findByRole("alert")).toHaveTextContent("No credentials are configured for this data provider.");
+        expect(screen.queryByText(/^\$/)).not.toBeInTheDocument();
+    })
+
+    it("should badge the demo data", async () => {
+        render(<StockTickerOverlay {...baseProps}/>);
+
+        expect(screen.getByRole("status")).toHaveTextContent("Loading data...");
+        expect(await screen.findByText("$185.06", latestPrice)).toBeInTheDocument();
+        expect(screen.getByText("Demo data")).toBeInTheDocument();
+        expect(screen.queryByRole("status")).not.toBeInTheDocument();
+    })
+
+    describe("when the provider fails", () => {
+        const nativeFetch = global.fetch;
+
+        beforeEach(() => {
+            clearQuoteCache();
+            jest.spyOn(console, "error").mockImplementation(() => undefined);
+            global.fetch = jest.fn().mockRejectedValue(new Error("Network error"));
+        });
+
+        afterEach(() => {
+            global.fetch = nativeFetch;
+            jest.useRealTimers();
+            jest.restoreAllMocks();
+        });
+
+        it("should show an error instead of made up prices and retry with backoff", async () => {
+            jest.useFakeTimers();
+            render(<StockTickerOverlay {...baseProps} symbol="AAPL" apikey="key"/>);
+
+            expect(await screen.findByRole("alert")).toHaveTextContent("Prices could not be loaded.");
+            expect(screen.queryByText(/^\$/)).not.toBeInTheDocument();
+            expect(screen.queryByText("Demo data")).not.toBeInTheDocument();
+            const calls = (global.fetch as jest.Mock).mock.calls.length;
+
+            await act(() => jest.advanceTimersByTimeAsync(999));
+            expect(global.fetch).toHaveBeenCalledTimes(calls);
+            await act(() => jest.advanceTimersByTimeAsync(1));
+            expect((global.fetch as jest.Mock).mock.calls.length).toBeGreaterThan(calls);
+
+            const retried = (global.fetch as jest.Mock).mock.calls.length;
+            await act(async () => fireEvent.click(await screen.findByRole("button", {name: "Retry"})));
+            expect((global.fetch as jest.Mock).mock.calls.length).toBeGreaterThan(retried);
+        })
+
+        it("should retry again after switching the range", async () => {
+            jest.useFakeTimers();
+            render(<StockTickerOverlay {...baseProps} symbol="AAPL" apikey="key" rangepresets={["1M", "3M"]}/>);
+            expect(await screen.findByRole("alert")).toHaveTextContent("Prices could not be loaded.");
+
+            for (const delay of [1000, 2000, 4000, 8000, 16_000]) {
+                await act(() => jest.advanceTimersByTimeAsync(delay));
+            }
+            const exhausted = (global.fetch as jest.Mock).mock.calls.length;
+            await act(() => jest.advanceTimersByTimeAsync(60_000));
+            expect(global.fetch).toHaveBeenCalledTimes(exhausted);
+
+            await act(async () => fireEvent.click(screen.getByRole("button", {name: "3M"})));
+            const switched = (global.fetch as jest.Mock).mock.calls.length;
+            expect(switched).toBeGreaterThan(exhausted);
+            await act(() => jest.advanceTimersByTimeAsync(1000));
+            expect((global.fetch as jest.Mock).mock.calls.length).toBeGreaterThan(switched);
+        })
+
+        it("should not retry a provider that is configured wrong", async () => {
+            jest.useFakeTimers();
+            render(<StockTickerOverlay {...baseProps} symbol="AAPL" provider="custom"/>);
+
+            expect(await screen.findByRole("alert")).toHaveTextContent("The data provider is not configured correctly.");
+            expect(screen.queryByRole("button", {name: "Retry"})).not.toBeInTheDocument();
+            await act(() => jest.advanceTimersByTimeAsync(1000));
+            expect(console.error).toHaveBeenCalledTimes(1);
+        })
+
+        it("should show stale cached prices with their date", async () => {
+            const bar = (date: string, close: number) => ({
+                timestamp: Date.parse(date), date, open: close, high: close, low: close, close, volume: 0,
+            });
+            window.localStorage.setItem("stock-ticker-overlay:polygon|AAPL|2w|day", JSON.stringify({
+                storedAt: Date.parse("2024-03-15T12:00:00Z"),
+                value: [bar("2024-03-14", 170), bar("2024-03-15", 172.5)],
+            }));
+            render(<StockTickerOverlay {...baseProps} symbol="AAPL" apikey="key"/>);
+
+            expect(await screen.findByText("$172.50", latestPrice)).toBeInTheDocument();
+            expect(screen.getByText(/^As of Mar 15, 2024/)).toBeInTheDocument();
+            expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+        })
+
+        it("should mark stale prices and failures in the tape", async () => {
+            window.localStorage.setItem("stock-ticker-overlay:polygon|AAPL|2w|day", JSON.stringify({
+                storedAt: Date.parse("2024-03-15T12:00:00Z"),
+                value: [{timestamp: Date.parse("2024-03-15"), date: "2024-03-15", open: 1, high: 1, low: 1, close: 172.5, volume: 0}],
+            }));
+            render(<StockTickerOverlay {...baseProps} symbol={["AAPL", "MSFT"]} apikey="key" layout="tape"/>);
+
+            expect(await screen.findByText("$172.50")).toBeInTheDocument();
+            expect(screen.getByText(/^As of Mar 15, 2024/)).toBeInTheDocument();
+            expect(await screen.findByText("Prices could not be loaded.")).toBeInTheDocument();
+        })
+
+        it("should load each symbol of a scrolling tape once", async () => {
+            const NativeResizeObserver = globalThis.ResizeObserver;
+            // the items are wider than the tape, so that it scrolls and shows them twice
+            globalThis.ResizeObserver = class {
+                constructor(private readonly callback: ResizeObserverCallback) {}
+                observe(element: Element) {
+                    const width = element.classList.contains("stockwidget-tape") ? 200 : 400;
+                    this.callback([{contentRect: {width, height: 20}} as ResizeObserverEntry], this as unknown as ResizeObserver);
+                }
+                unobserve() {}
+                disconnect() {}
+            } as unknown as typeof ResizeObserver;
+            try {
+                render(<StockTickerOverlay {...baseProps} symbol={["AAPL", "MSFT"]} apikey="key" layout="tape"/>);
+
+                await waitFor(() => expect(screen.getAllByText("Prices could not be loaded.")).toHaveLength(4));
+                // one failed load per symbol, not per copy
+                const failedLoads = (console.error as jest.Mock).mock.calls
+                    .filter(([message]) => message === "Error fetching data:");
+                expect(failedLoads).toHaveLength(2);
+            } finally {
+                globalThis.ResizeObserver = NativeResizeObserver;
+            }
+        })
+    })
+
+    it("should show the market session and the extended hours price", async () => {
+        const nativeFetch = global.fetch;
+        clearQuoteCache();
+        // Friday after the close in New York
+        jest.useFakeTimers({now: Date.parse("2024-03-15T21:30:00Z")});
+        const respond = (body: unknown) => Promise.resolve({ok: true, json: () => Promise.resolve(body)});
+        global.fetch = jest.fn((url: string) => {
+            if (url.includes("/v3/reference/")) {
+                return respond({results: {ticker: "AAPL", primary_exchange: "XNAS", currency_name: "usd"}});
+            }
+            if (url.includes("/v2/last/trade/")) {
+                return respond({results: {p: 174, t: Date.parse("2024-03-15T21:29:00Z") * 1_000_000}});
+            }
+            return respond({results: [
+                {t: Date.parse("2024-03-14T04:00:00Z"), o: 170, h: 171, l: 169, c: 170, v: 1},
+                {t: Date.parse("2024-03-15T04:00:00Z"), o: 170, h: 173, l: 169, c: 172.5, v: 1},
+            ]});
+        }) as jest.Mock;
+        try {
+            render(<StockTickerOverlay {...baseProps} symbol="AAPL" apikey="key" live="true" extendedhours="true"/>);
+
+            expect(await screen.findByText("After hours", {selector: ".stockwidget-session"})).toBeInTheDocument();
+            expect(screen.getByText("Updated Mar 15, 4:00 PM EDT")).toBeInTheDocument();
+            expect(screen.getByText("$172.50", latestPrice)).toBeInTheDocument();
+            expect(await screen.findByText("$174.00", {selector: ".stockwidget-extendedPrice span"})).toBeInTheDocument();
+        } finally {
+            global.fetch = nativeFetch;
+            jest.useRealTimers();
+        }
+    })
+
+    it("should keep the evening trades of the day with its session", async () => {
+        const nativeFetch = global.fetch;
+        clearQuoteCache();
+        // Thursday evening in New York, already Friday in UTC
+        jest.useFakeTimers({now: Date.parse("2024-01-12T01:30:00Z")});
+        const respond = (body: unknown) => Promise.resolve({ok: true, json: () => Promise.resolve(body)});
+        const minuteBar = (time: string, close: number) => ({t: Date.parse(time), o: close, h: close, l: close, c: close, v: 1});
+        global.fetch = jest.fn((url: string) => url.includes("/v3/reference/")
+            ? respond({results: {ticker: "AAPL", primary_exchange: "XNAS", currency_name: "usd"}})
+            : respond({results: [
+                minuteBar("2024-01-10T20:59:00Z", 180),
+                minuteBar("2024-01-11T14:30:00Z", 181),
+                minuteBar("2024-01-11T20:59:00Z", 182),
+                // 7:10 and 7:40 PM EST
+                minuteBar("2024-01-12T00:10:00Z", 183),
+                minuteBar("2024-01-12T00:40:00Z", 184),
+            ]})) as jest.Mock;
+        try {
+            render(<StockTickerOverlay {...baseProps} symbol="AAPL" apikey="key" rangepresets={["1D"]} defaultrange="1D"/>);
+
+            expect(await screen.findByText("$184.00", latestPrice)).toBeInTheDocument();
+            const table = screen.getByRole("table", {name: "Price chart of AAPL"});
+            // the header and the four bars of Thursday
+            expect(within(table).getAllByRole("row")).toHaveLength(5);
+        } finally {
+            global.fetch = nativeFetch;
+            jest.useRealTimers();
+        }
+    })
+
+    it("should append streamed trades in live mode", async () => {
+        const NativeWebSocket = window.WebSocket;
+        installReplaySocket();
+        jest.useFakeTimers();
+        try {
+            render(<StockTickerOverlay {...baseProps} live="true" livetransport="websocket" livesocketurl={REPLAY_SOCKET_URL}/>);
+            expect(await screen.findByText("$185.06", latestPrice)).toBeInTheDocument();
+
+            await act(() => jest.advanceTimersByTimeAsync(REPLAY_TICK_INTERVAL_MS));
+
+            expect(screen.getByText("$173.41", latestPrice)).toBeInTheDocument();
+        } finally {
+            jest.useRealTimers();
+            window.WebSocket = NativeWebSocket;
+        }
+    })
+
+    it("should report a malformed socket url instead of failing", async () => {
+        const consoleError = jest.spyOn(console, "error").mockImplementation(() => undefined);
+        try {
+            render(<StockTickerOverlay {...baseProps} live="true" livetransport="websocket" livesocketurl="not a url"/>);
+
+            expect(await screen.findByText("$185.06", latestPrice)).toBeInTheDocument();
+            expect(consoleError).toHaveBeenCalledWith("Live price stream error:", expect.any(Error));
+        } finally {
+            consoleError.mockRestore();
+        }
+    })
+
+    it("should render a watchlist for several symbols and expand a row", async () => {
+        render(<StockTickerOverlay {...baseProps} symbol={["VNI", "AAPL"]}/>);
+
+        const rows = screen.getAllByRole("button");
+        expect(rows).toHaveLength(2);
+        expect(await screen.findByText("$185.06")).toBeInTheDocument();
+        // made up prices and failures are marked in the rows too
+        expect(within(rows[0]).getByText("Demo data")).toBeInTheDocument();
+        expect(await within(rows[1]).findByText("No credentials are configured for this data provider.")).toBeInTheDocument();
+
+        fireEvent.click(rows[0]);
+
+        expect(await screen.findAllByText("VNI")).toHaveLength(2);
+        expect(rows[0]).toHaveAttribute("aria-expanded", "true");
+    })
+
+    it("should accept single, comma separated and array symbols", () => {
+        expect(toSymbolList("AAPL")).toEqual(["AAPL"]);
+        expect(toSymbolList("AAPL, MSFT,,AAPL")).toEqual(["AAPL", "MSFT"]);
+        expect(toSymbolList(["SPY", " QQQ "])).toEqual(["SPY", "QQQ"]);
+        expect(toSymbolList(undefined)).toEqual([]);
+    })
+
+    it("should render the ticker tape layout", async () => {
+        render(<StockTickerOverlay {...baseProps} symbol={["VNI"]} layout="tape"/>);
+
+        const tape = screen.getByRole("marquee");
+        expect(tape).toHaveAccessibleName("Stock prices: VNI");
+        expect(await screen.findByText("$185.06")).toBeInTheDocument();
+        expect(screen.getByText("+31.25%")).toBeInTheDocument();
+        expect(within(tape).getByText("Demo data")).toBeInTheDocument();
+    })
+
+    it("should switch ranges with the preset buttons", async () => {
+        render(<StockTickerOverlay {...baseProps} rangepresets={["1M", "3M"]}/>);
+
+        expect(await screen.findByText("$185.06", latestPrice)).toBeInTheDocument();
+        const twoWeeksStart = screen.getByText(/^since /).textContent;
+        const group = screen.getByRole("group", {name: "Range"});
+        const threeMonths = within(group).getByRole("button", {name: "3M"});
+        expect(threeMonths).toHaveAttribute("aria-pressed", "false");
+
+        fireEvent.click(threeMonths);
+
+        expect(threeMonths).toHaveAttribute("aria-pressed", "true");
+        await waitFor(() => expect(screen.getByText(/^since /).textContent).not.toBe(twoWeeksStart));
+    })
+
+    it("should show the configured logo and fall back to a monogram", async () => {
+        const {container} = render(<StockTickerOverlay {...baseProps} logo="https://example.com/logo.png"/>);
+
+        const logo = container.querySelector("img.stockwidget-logo") as HTMLImageElement;
+        expect(logo).toHaveAttribute("src", "https://example.com/logo.png");
+
+        fireEvent.error(logo);
+
+        expect(await screen.findByText("VN")).toHaveClass("stockwidget-monogram");
+    })
+
+    it("should explain the demo symbol in the company info", async () => {
+        render(<StockTickerOverlay {...baseProps} showinfo="true"/>);
+
+        expect(await screen.findByText("Demo stock")).toBeInTheDocument();
+        const info = screen.getByRole("region", {name: "Company information"});
+        expect(info).toHaveTextContent(/^VNI is not a real stock\..*…More$/);
+
+        fireEvent.click(within(info).getByRole("button", {name: "More"}));
+
+        expect(info).toHaveTextContent("Enter a ticker symbol such as AAPL to show real prices.");
+        expect(within(info).getByRole("button", {name: "Less"})).toHaveAttribute("aria-expanded", "true");
+    })
+
+    it("should only link web addresses as the company homepage", () => {
+        expect(toHomepageUrl("https://www.apple.com")).toBe("https://www.apple.com");
+        expect(toHomepageUrl("http://example.com/")).toBe("http://example.com/");
+        expect(toHomepageUrl("javascript:alert(1)")).toBeNull();
+        expect(toHomepageUrl("www.apple.com")).toBeNull();
+        expect(toHomepageUrl(undefined)).toBeNull();
+
+        render(<CompanyInfo details={{symbol: "AAPL", description: "Phones", homepage: "javascript:alert(1)"}}/>);
+        expect(screen.getByText("Phones")).toBeInTheDocument();
+        expect(screen.queryByRole("link")).not.toBeInTheDocument();
+    })
+
+    it("should translate texts and apply label overrides", async () => {
+        render(<StockTickerOverlay {...baseProps} contentLanguage="de_DE" symbol="AAPL" rangepresets="1M" labels={{range: "Zeitspanne"}}/>);
+
+        expect(await screen.findByRole("alert")).toHaveTextContent("Für diesen Datenanbieter sind keine Zugangsdaten konfiguriert.");
+        expect(screen.getByRole("group", {name: "Zeitspanne"})).toBeInTheDocument();
+    })
+
+    it("should let keyboard and screen reader users read the chart", async () => {
+        const {container} = render(<StockTickerOverlay {...baseProps}/>);
+
+        expect(await screen.findByText("$185.06", latestPrice)).toBeInTheDocument();
+        const chart = screen.getByRole("application", {name: "Price chart of VNI"});
+        const announcer = container.querySelector("[aria-live]") as HTMLElement;
+
+        fireEvent.keyDown(chart, {key: "Home"});
+        expect(announcer).toHaveTextContent(/: \$141\.00$/);
+
+        fireEvent.keyDown(chart, {key: "ArrowRight"});
+        expect(announcer).toHaveTextContent(/: \$132\.00$/);
+
+        fireEvent.keyDown(chart, {key: "End"});
+        expect(announcer).toHaveTextContent(/: \$185\.06$/);
+
+        const table = screen.getByRole("table", {name: "Price chart of VNI"});
+        expect(within(table).getAllByRole("row")).toHaveLength(11);
+    })
+
+    it("should scrub with a finger and pin the tooltip with a tap", async () => {
+        const {container} = render(<StockTickerOverlay {...baseProps}/>);
+
+        expect(await screen.findByText("$185.06", latestPrice)).toBeInTheDocument();
+        const chart = screen.getByRole("application", {name: "Price chart of VNI"});
+        jest.spyOn(chart, "getBoundingClientRect").mockReturnValue(
+            {left: 0, top: 0, width: 200, height: 160, right: 200, bottom: 160} as DOMRect
+        );
+        const tooltip = () => container.querySelector(".stockwidget-tooltip");
+        const touch = {pointerId: 1, pointerType: "touch"};
+
+        fireEvent.pointerMove(chart, {pointerType: "mouse", clientX: 24});
+        expect(tooltip()).toHaveTextContent("$132.00");
+        fireEvent.pointerLeave(chart, {pointerType: "mouse"});
+        expect(tooltip()).not.toBeInTheDocument();
+
+        fireEvent.pointerDown(chart, {...touch, clientX: 0});
+        fireEvent.pointerMove(chart, {...touch, clientX: 3});
+        expect(tooltip()).not.toBeInTheDocument();
+
+        fireEvent.pointerMove(chart, {...touch, clientX: 24});
+        expect(tooltip()).toHaveTextContent("$132.00");
+        fireEvent.pointerMove(chart, {...touch, clientX: 200});
+        expect(tooltip()).toHaveTextContent("$185.06");
+
+        fireEvent.pointerUp(chart, {...touch, clientX: 200});
+        expect(tooltip()).not.toBeInTheDocument();
+
+        fireEvent.pointerDown(chart, {...touch, clientX: 24});
+        fireEvent.pointerUp(chart, {...touch, clientX: 24});
+        expect(tooltip()).toHaveTextContent("$132.00");
+
+        // scrolling the page keeps the pinned tooltip, tapping the same day again lets go
+        fireEvent.pointerDown(chart, {...touch, clientX: 24});
+        fireEvent.pointerCancel(chart, touch);
+        expect(tooltip()).toHaveTextContent("$132.00");
+        fireEvent.pointerDown(chart, {...touch, clientX: 24});
+        fireEvent.pointerUp(chart, {...touch, clientX: 24});
+        expect(tooltip()).not.toBeInTheDocument();
+    })
+
+    it("should measure a dragged span and zoom into it", async () => {
+        const {container} = render(<StockTickerOverlay {...baseProps}/>);
+
+        expect(await screen.findByText("$185.06", latestPrice)).toBeInTheDocument();
+        const chart = screen.getByRole("application", {name: "Price chart of VNI"});
+        jest.spyOn(chart, "getBoundingClientRect").mockReturnValue(
+            {left: 0, top: 0, width: 200, height: 160, right: 200, bottom: 160} as DOMRect
+        );
+        const rows = () => within(screen.getByRole("table", {name: "Price chart of VNI"})).getAllByRole("row");
+        const mouse = {pointerId: 1, pointerType: "mouse", button: 0};
+
+        fireEvent.pointerDown(chart, {...mouse, clientX: 24});
+        fireEvent.pointerMove(chart, {...mouse, clientX: 200});
+        fireEvent.pointerUp(chart, {...mouse, clientX: 200});
+
+        expect(container.querySelector(".stockwidget-selection")).toBeInTheDocument();
+        expect(container.querySelector(".stockwidget-selectionChange")?.textContent)
+            .toMatch(/^\+\$53\.06 \(\+40\.20%\) from .+ to .+$/);
+
+        fireEvent.doubleClick(chart);
+        expect(rows()).toHaveLength(10);
+        expect(container.querySelector(".stockwidget-selection")).not.toBeInTheDocument();
+
+        // the keyboard selects with shift and zooms with enter
+        fireEvent.keyDown(chart, {key: "Home"});
+        fireEvent.keyDown(chart, {key: "ArrowRight", shiftKey: true});
+        fireEvent.keyDown(chart, {key: "ArrowRight", shiftKey: true});
+        expect(container.querySelector("[aria-live]")).toHaveTextContent(/^\+\$27\.00 \(\+20\.45%\) from/);
+        fireEvent.keyDown(chart, {key: "Enter"});
+        expect(rows()).toHaveLength(4);
+
+        fireEvent.click(screen.getByRole("button", {name: "Reset zoom"}));
+        expect(rows()).toHaveLength(11);
+        expect(screen.queryByRole("button", {name: "Reset zoom"})).not.toBeInTheDocument();
+    })
+
+    it("should draw reference levels and highlight a price that is already beyond a threshold", async () => {
+        const onAlert = jest.fn();
+        document.addEventListener(PRICE_ALERT_EVENT, onAlert);
+        try {
+            render(<StockTickerOverlay {...baseProps} levels={[{label: "IPO", price: 500}]} alertabove="180" alertbelow="100"/>);
+
+            expect(await screen.findByText("Above $180.00")).toBeInTheDocument();
+            expect(screen.getByText("IPO $500.00")).toBeInTheDocument();
+            expect(screen.getByText("Upper alert $180.00")).toBeInTheDocument();
+            expect(document.querySelectorAll(".stockwidget-level")).toHaveLength(3);
+            // it was above on mount, nothing was crossed
+            expect(onAlert).not.toHaveBeenCalled();
+        } finally {
+            document.removeEventListener(PRICE_ALERT_EVENT, onAlert);
+        }
+    })
+
+    it("should alert when a live price crosses a threshold", async () => {
+        const NativeWebSocket = window.WebSocket;
+        const onAlert = jest.fn();
+        document.addEventListener(PRICE_ALERT_EVENT, onAlert);
+        installReplaySocket();
+        jest.useFakeTimers();
+        try {
+            render(<StockTickerOverlay {...baseProps} alertbelow="173.5" live="true" livetransport="websocket" livesocketurl={REPLAY_SOCKET_URL}/>);
+            expect(await screen.findByText("$185.06", latestPrice)).toBeInTheDocument();
+            expect(onAlert).not.toHaveBeenCalled();
+
+            await act(() => jest.advanceTimersByTimeAsync(REPLAY_TICK_INTERVAL_MS));
+
+            expect(screen.getByText("Below $173.50")).toBeInTheDocument();
+            expect(onAlert).toHaveBeenCalledTimes(1);
+            expect(onAlert.mock.calls[0][0].detail).toEqual({symbol: "VNI", price: 173.41, direction: "below", threshold: 173.5});
+        } finally {
+            jest.useRealTimers();
+            window.WebSocket = NativeWebSocket;
+            document.removeEventListener(PRICE_ALERT_EVENT, onAlert);
+        }
+    })
+
+    it("should draw indicators from the first day on", async () => {
+        const {container} = render(<StockTickerOverlay {...baseProps} indicators={[{type: "sma", period: 3}, {type: "bollinger", period: 3, linestyle: "dashed"}]}/>);
+
+        expect(await screen.findByText("$185.06", latestPrice)).toBeInTheDocument();
+        expect(container.querySelectorAll(".stockwidget-indicator")).toHaveLength(2);
+
+        const chart = screen.getByRole("application", {name: "Price chart of VNI"});
+        fireEvent.keyDown(chart, {key: "End"});
+        expect(container.querySelector("[aria-live]")).toHaveTextContent(/: \$185\.06, SMA 3 \$173\.36, Bollinger 3 \$173\.36$/);
+
+        // the warm-up bars fill the averages of the first days
+        const table = screen.getByRole("table", {name: "Price chart of VNI"});
+        const firstRow = within(table).getAllByRole("row")[1];
+        expect(within(firstRow).getAllByRole("cell").map((cell) => cell.textContent)).toEqual(["$141.00", expect.stringMatching(/^\$\d+\.\d\d$/), expect.stringMatching(/^\$\d+\.\d\d$/)]);
+    })
+
+    it("should draw one candle per day", async () => {
+        const {container} = render(<StockTickerOverlay {...baseProps} charttype="candlestick"/>);
+
+        expect(await screen.findByText("$185.06", latestPrice)).toBeInTheDocument();
+        expect(container.querySelectorAll(".stockwidget-candle")).toHaveLength(10);
+    })
+
+    it("should show the volume strip only when enabled", async () => {
+        const {container, rerender} = render(<StockTickerOverlay {...baseProps}/>);
+
+        expect(await screen.findByText("$185.06", latestPrice)).toBeInTheDocument();
+        expect(container.querySelector(".stockwidget-volume")).not.toBeInTheDocument();
+
+        rerender(<StockTickerOverlay {...baseProps} showvolume="true"/>);
+
+        expect(container.querySelectorAll(".stockwidget-volume rect")).toHaveLength(10);
+    })
+
+    it("should label axes with round prices and dates", async () => {
+        const {container, rerender} = render(<StockTickerOverlay {...baseProps} showaxes="true"/>);
+
+        expect(await screen.findByText("$185.06", latestPrice)).toBeInTheDocument();
+        const valueAxis = container.querySelector(".stockwidget-axisY") as HTMLElement;
+        expect(valueAxis).toHaveAttribute("aria-hidden", "true");
+        expect(valueAxis.textContent).toBe("$120.00$140.00$160.00$180.00");
+        expect(container.querySelector(".stockwidget-axisX")?.textContent).not.toBe("");
+        expect(container.querySelector(".stockwidget-grid")).not.toBeInTheDocument();
+
+        rerender(
+            <StockTickerOverlay {...baseProps} showaxes="true" gridlines="true" scalemode="include-zero"/>
+        );
+
+        expect(valueAxis.textContent).toBe("$0.00$50.00$100.00$150.00");
+        expect(container.querySelectorAll(".stockwidget-grid line").length).toBeGreaterThan(4);
+    })
+
+    it("should mark the highest and lowest price and show the range statistics", async () => {
+        const {container} = render(<StockTickerOverlay {...baseProps} showstats="true"/>);
+
+        expect(await screen.findByText("$185.06", latestPrice)).toBeInTheDocument();
+        expect(container.querySelectorAll(".stockwidget-extreme")).toHaveLength(2);
+        const labels = container.querySelectorAll(".stockwidget-extremeLabel");
+        expect(labels[0]).toHaveTextContent("Highest price $185.06");
+        expect(labels[1]).toHaveTextContent("Lowest price $120.00");
 
-        expect(screen.getByText(/Hello World/)).toBeInTheDocument();
+        const stats = container.querySelector(".stockwidget-stats") as HTMLElement;
+        expect(stats).toHaveAttribute("aria-label", "Range statistics");
+        expect(stats).toHaveTextContent(/^Range high\$186\.17Range low\$119\.28Avg\. close/);
+        expect(await within(stats).findByText("52-wk high")).toBeInTheDocument();
     })
 })
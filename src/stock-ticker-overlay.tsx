@@ -11,555 +11,233 @@
  * limitations under the License.
  */
 
-import React, { ReactElement, useState, useEffect, useId } from "react";
-import { BlockAttributes } from "widget-sdk";
-import { useContainerSize } from "./useContainerSize";
-
-export interface StockTickerOverlayProps extends BlockAttributes {
-  symbol: string;
-  weeks: number;
+import React, { ReactElement, useMemo } from "react";
+import { ColorTheme } from "widget-sdk";
+import { DEFAULT_CACHE_TTL_SECONDS } from "./quote-cache";
+import { DEFAULT_LIVE_INTERVAL_SECONDS, liveTransports } from "./useLivePrice";
+import { POLYGON_STOCKS_SOCKET_URL } from "./providers/polygon-stream";
+import { DataSourceConfig, DEMO_SYMBOL } from "./useStockSeries";
+import { LiveSettings, StockChartCard } from "./stock-chart-card";
+import { Watchlist } from "./watchlist";
+import { TickerTape } from "./ticker-tape";
+import { chartTypes } from "./price-chart";
+import { scaleModes } from "./chart-geometry";
+import { LocaleContext, MessagesContext } from "./locale-context";
+import { getMessages, Messages, toMessageOverrides } from "./messages";
+import { ThemeContext } from "./theme-context";
+import { createTheme } from "./theme";
+import { ReferenceLevel, toPriceAlerts, toReferenceLevels } from "./price-levels";
+import { toIndicators } from "./indicators";
+import { toLocale } from "./format";
+import { DEFAULT_RANGE_PRESETS, getInitialRange, toRangePresets } from "./range-presets";
+
+/**
+ * Attributes of the block. `symbol` is a list, but older configurations hold a single string.
+ */
+export interface StockTickerOverlayProps {
+  contentLanguage: string;
+  /**
+   * Theme of the hosting application, if it provides one
+   */
+  colorTheme?: ColorTheme | null;
+  symbol: string | string[];
+  /**
+   * Arrives as a string from the block attributes
+   */
+  weeks: number | string;
+  rangepresets: string | string[];
+  defaultrange: string;
   logo: string;
+  showinfo: string;
   stockgraphcolor: string;
+  charttype: string;
+  showvolume: string;
+  showstats: string;
+  showaxes: string;
+  gridlines: string;
+  scalemode: string;
+  compare: string | string[];
+  /**
+   * Reference levels, an array of label, price and color or its JSON
+   */
+  levels: string | ReferenceLevel[];
+  alertabove: string;
+  alertbelow: string;
+  /**
+   * Indicators, an array of type, period, deviations, color and linestyle or its JSON
+   */
+  indicators: string | Array<Record<string, unknown>>;
+  provider: string;
+  providerendpoint: string;
+  credentialsource: string;
+  apikey: string;
+  proxyurl: string;
+  integration: string;
+  cachettl: string;
+  live: string;
+  livetransport: string;
+  liveinterval: string;
+  livesocketurl: string;
+  extendedhours: string;
+  layout: string;
+  /**
+   * Texts replacing those of the language bundles, keyed like the English bundle
+   */
+  labels: string | Partial<Messages>;
+  /**
+   * "light" or "dark" forces a variant, otherwise it follows the host theme
+   */
+  theme: string;
 }
 
+/**
+ * Normalizes the symbol attribute to a list without blanks and duplicates.
+ * Plain strings may hold several comma separated symbols.
+ */
+export const toSymbolList = (symbol: string | string[] | undefined): string[] => {
+  const symbols = (Array.isArray(symbol) ? symbol : String(symbol ?? "").split(","))
+    .map((entry) => String(entry).trim())
+    .filter(Boolean);
+  return Array.from(new Set(symbols));
+};
+
 export const StockTickerOverlay = ({
+  contentLanguage,
+  colorTheme = null,
   symbol,
   weeks,
+  rangepresets,
+  defaultrange,
+  logo,
+  showinfo,
   stockgraphcolor,
+  charttype,
+  showvolume,
+  showstats,
+  showaxes,
+  gridlines,
+  scalemode,
+  compare,
+  levels,
+  alertabove,
+  alertbelow,
+  indicators,
+  provider,
+  providerendpoint,
+  credentialsource,
+  apikey,
+  proxyurl,
+  integration,
+  cachettl,
+  live,
+  livetransport,
+  liveinterval,
+  livesocketurl,
+  extendedhours,
+  layout,
+  labels,
+  theme,
 }: StockTickerOverlayProps): ReactElement => {
-  const [containerRef] = useContainerSize<HTMLDivElement>();
-  const [graphRowRef, graphRowSize] = useContainerSize<HTMLDivElement>();
-
-  // Base sizing; graph scales with container width
-  const fontSize = "1rem";
-  const svgHeight = 160;
-  const dailyChangeFontSize = "0.85rem";
-
-  // State for stock data
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [closingPrices, setClosingPrices] = useState<number[]>([]);
-  const [closingDates, setClosingDates] = useState<string[]>([]);
-  const [latestClose, setLatestClose] = useState<number | null>(null);
-  const [isGraphHover, setIsGraphHover] = useState(false);
-  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
-  const [tooltip, setTooltip] = useState<{
-    x: number;
-    y: number;
-    price: number;
-    date: string;
-  } | null>(null);
-  const gradientId = useId();
-
-  // Polygon.io config
-  const apiKey = "peVSYdi2zmCBJYWXc0pe0d_B0FP6dXO7";
-  const fallbackClosingPrices2 = [
-    141, 132, 147, 159, 163, 154, 120, 175, 160.02, 185.06,
-  ];
-  const fallbackClosingPrices4 = [
-    120, 123, 127, 124, 130, 134, 132, 138, 136, 140, 143, 141, 145, 149, 147,
-    151, 154, 152, 156, 160, 158, 162, 165, 163, 168, 171, 169, 173.2,
-  ];
-  const baseWeeks = weeks || 4;
-  const toggleWeeks = baseWeeks === 2 ? 4 : 2;
-  const [activeWeeks, setActiveWeeks] = useState(baseWeeks);
-
-  useEffect(() => {
-    setActiveWeeks(baseWeeks);
-  }, [baseWeeks]);
-
-  useEffect(() => {
-    const fetchData = async () => {
-      setLoading(true);
-      setError(null);
-
-      // Bypass API if symbol is "VNI" for demo
-      if (symbol === "VNI") {
-        const fallbackPrices =
-          activeWeeks === 4 ? fallbackClosingPrices4 : fallbackClosingPrices2;
-        const fallbackDates = buildFallbackDates(fallbackPrices.length);
-        setClosingPrices(fallbackPrices);
-        setClosingDates(fallbackDates);
-        setLatestClose(fallbackPrices[fallbackPrices.length - 1]);
-        setLoading(false);
-        return;
-      }
-
-      try {
-        // Fetch ticker details
-        const detailsUrl = `https://api.polygon.io/v3/reference/tickers/${symbol}?apiKey=${apiKey}`;
-        const detailsResponse = await fetch(detailsUrl);
-        if (!detailsResponse.ok) {
-          throw new Error(`HTTP error! Status: ${detailsResponse.status}`);
-        }
-        await detailsResponse.json();
-
-        // Prepare date range for aggregator
-        const today = new Date();
-        const startDate = new Date(today);
-        startDate.setDate(today.getDate() - activeWeeks * 7);
-        const endDateStr = today.toISOString().split("T")[0];
-        const startDateStr = startDate.toISOString().split("T")[0];
-
-        const aggsUrl = `https://api.polygon.io/v2/aggs/ticker/${symbol}/range/1/day/${startDateStr}/${endDateStr}?adjusted=true&sort=asc&apiKey=${apiKey}`;
-        const aggsResponse = await fetch(aggsUrl);
-        if (!aggsResponse.ok) {
-          throw new Error(`HTTP error! Status: ${aggsResponse.status}`);
-        }
-        const aggsData = await aggsResponse.json();
-
-        if (aggsData.results?.length) {
-          const closes = aggsData.results.map((r: any) => r.c);
-          const dates = aggsData.results.map((r: any) =>
-            new Date(r.t).toISOString().split("T")[0]
-          );
-
-          setClosingPrices(closes);
-          setClosingDates(dates);
-
-          const lastClose = closes[closes.length - 1];
-          setLatestClose(lastClose);
-        } else {
-          throw new Error("No results found in Polygon daily aggregates.");
-        }
-      } catch (error) {
-        console.error("Error fetching data:", error);
-
-        // Fallback
-        const fallbackPrices =
-          activeWeeks === 4 ? fallbackClosingPrices4 : fallbackClosingPrices2;
-        setClosingPrices(fallbackPrices);
-        setClosingDates(buildFallbackDates(fallbackPrices.length));
-        setLatestClose(
-          fallbackPrices[fallbackPrices.length - 1]
-        );
-        setError(null);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchData();
-  }, [symbol, activeWeeks]);
-
-  // Generate smooth SVG path
-  const graphBaseWidth = 200;
-  const graphBaseHeight = 180;
-  const graphBaselineInset = 30;
-  const graphTopPadding = 6;
-  const generateSvgPath = (prices: number[]): string => {
-    if (!prices || prices.length < 2) return "";
-
-    const minPrice = Math.min(...prices);
-    const maxPrice = Math.max(...prices);
-    const priceRange = maxPrice - minPrice || 1;
-    const graphInnerHeight =
-      graphBaseHeight - graphBaselineInset - graphTopPadding;
-    const stepX = graphBaseWidth / (prices.length - 1);
-
-    const points = prices.map((price, i) => {
-      const x = i * stepX;
-      const y =
-        graphTopPadding +
-        graphInnerHeight -
-        ((price - minPrice) / priceRange) * graphInnerHeight;
-      return { x, y };
-    });
-
-    let pathD = `M ${points[0].x},${points[0].y}`;
-    for (let i = 0; i < points.length - 1; i++) {
-      const p0 = points[i];
-      const p1 = points[i + 1];
-      const cpX = (p0.x + p1.x) / 2;
-      const cp0 = { x: cpX, y: p0.y };
-      const cp1 = { x: cpX, y: p1.y };
-      pathD += ` C ${cp0.x},${cp0.y} ${cp1.x},${cp1.y} ${p1.x},${p1.y}`;
-    }
-
-    return pathD;
+  const symbols = toSymbolList(symbol);
+  if (!symbols.length) symbols.push(DEMO_SYMBOL);
+
+  const parsedTtl = Number(cachettl);
+  const source: DataSourceConfig = {
+    provider,
+    endpoint: providerendpoint,
+    credentials: {
+      source: credentialsource,
+      apiKey: apikey,
+      proxyUrl: proxyurl,
+      integration,
+    },
+    cacheTtl:
+      cachettl !== "" && Number.isFinite(parsedTtl) && parsedTtl >= 0
+        ? parsedTtl
+        : DEFAULT_CACHE_TTL_SECONDS,
   };
 
-  const generateSvgAreaPath = (prices: number[]): string => {
-    if (!prices || prices.length < 2) return "";
-
-    const minPrice = Math.min(...prices);
-    const maxPrice = Math.max(...prices);
-    const priceRange = maxPrice - minPrice || 1;
-    const graphInnerHeight =
-      graphBaseHeight - graphBaselineInset - graphTopPadding;
-    const stepX = graphBaseWidth / (prices.length - 1);
-
-    const points = prices.map((price, i) => {
-      const x = i * stepX;
-      const y =
-        graphTopPadding +
-        graphInnerHeight -
-        ((price - minPrice) / priceRange) * graphInnerHeight;
-      return { x, y };
-    });
-
-    let areaD = `M ${points[0].x},${graphBaseHeight} L ${points[0].x},${points[0].y}`;
-    for (let i = 1; i < points.length; i++) {
-      const p0 = points[i - 1];
-      const p1 = points[i];
-      const cpX = (p0.x + p1.x) / 2;
-      const cp0 = { x: cpX, y: p0.y };
-      const cp1 = { x: cpX, y: p1.y };
-      areaD += ` C ${cp0.x},${cp0.y} ${cp1.x},${cp1.y} ${p1.x},${p1.y}`;
-    }
-    areaD += ` L ${points[points.length - 1].x},${graphBaseHeight} Z`;
-
-    return areaD;
-  };
-
-  const getGraphPoints = (prices: number[], dates: string[]) => {
-    if (!prices || prices.length < 2) return [];
-    const minPrice = Math.min(...prices);
-    const maxPrice = Math.max(...prices);
-    const priceRange = maxPrice - minPrice || 1;
-    const graphInnerHeight =
-      graphBaseHeight - graphBaselineInset - graphTopPadding;
-    const stepX = graphBaseWidth / (prices.length - 1);
-
-    return prices.map((price, i) => {
-      const x = i * stepX;
-      const y =
-        graphTopPadding +
-        graphInnerHeight -
-        ((price - minPrice) / priceRange) * graphInnerHeight;
-      return {
-        x,
-        y,
-        price,
-        date: dates[i] || "",
-      };
-    });
-  };
-
-  const formatDateShort = (dateStr: string) => {
-    if (!dateStr) return "";
-    const parsed = new Date(dateStr);
-    if (Number.isNaN(parsed.getTime())) return dateStr;
-    return parsed.toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-    });
+  const range = getInitialRange(defaultrange, weeks);
+  // configurations from before the presets existed get the defaults
+  const presets =
+    rangepresets === undefined ? DEFAULT_RANGE_PRESETS : toRangePresets(rangepresets);
+
+  const chartType = chartTypes.find((type) => type === charttype) ?? "area";
+  const scaleMode = scaleModes.find((mode) => mode === scalemode) ?? "fit";
+  const indicatorList = toIndicators(indicators);
+
+  const parsedInterval = Number(liveinterval);
+  const liveSettings: LiveSettings = {
+    enabled: String(live) === "true",
+    transport: liveTransports.find((transport) => transport === livetransport) ?? "polling",
+    intervalSeconds:
+      parsedInterval > 0 ? parsedInterval : DEFAULT_LIVE_INTERVAL_SECONDS,
+    socketUrl: livesocketurl || POLYGON_STOCKS_SOCKET_URL,
+    extendedHours: String(extendedhours) === "true",
   };
 
-  const formatDateNumeric = (dateStr: string) => {
-    if (!dateStr) return "";
-    const parsed = new Date(dateStr);
-    if (Number.isNaN(parsed.getTime())) return dateStr;
-    return parsed.toLocaleDateString("en-US", {
-      month: "2-digit",
-      day: "2-digit",
-      year: "2-digit",
-    });
-  };
-
-  // Price change
-  let rangeChange: number | null = null;
-  if (closingPrices.length > 1) {
-    rangeChange =
-      closingPrices[closingPrices.length - 1] - closingPrices[0];
+  let content: ReactElement;
+  if (layout === "tape") {
+    content = <TickerTape symbols={symbols} range={range} source={source} />;
+  } else if (symbols.length > 1) {
+    content = (
+      <Watchlist
+        symbols={symbols}
+        range={range}
+        presets={presets}
+        showinfo={String(showinfo) === "true"}
+        stockgraphcolor={stockgraphcolor}
+        charttype={chartType}
+        showvolume={String(showvolume) === "true"}
+        showstats={String(showstats) === "true"}
+        showaxes={String(showaxes) === "true"}
+        gridlines={String(gridlines) === "true"}
+        scalemode={scaleMode}
+        compare={toSymbolList(compare)}
+        indicators={indicatorList}
+        source={source}
+        live={liveSettings}
+      />
+    );
+  } else {
+    content = (
+      <StockChartCard
+        symbol={symbols[0]}
+        range={range}
+        presets={presets}
+        logo={logo}
+        showinfo={String(showinfo) === "true"}
+        stockgraphcolor={stockgraphcolor}
+        charttype={chartType}
+        showvolume={String(showvolume) === "true"}
+        showstats={String(showstats) === "true"}
+        showaxes={String(showaxes) === "true"}
+        gridlines={String(gridlines) === "true"}
+        scalemode={scaleMode}
+        compare={toSymbolList(compare)}
+        levels={toReferenceLevels(levels)}
+        alerts={toPriceAlerts(alertabove, alertbelow)}
+        indicators={indicatorList}
+        source={source}
+        live={liveSettings}
+      />
+    );
   }
-  const changeColor =
-    rangeChange !== null && rangeChange >= 0 ? "#6CD28D" : "#ef4444";
-  const changePercent =
-    rangeChange !== null && closingPrices.length > 1
-      ? (rangeChange / (closingPrices[0] || 1)) * 100
-      : null;
-  const startDateLabel = closingDates.length
-    ? formatDateNumeric(closingDates[0])
-    : "";
-  const sinceLabel = startDateLabel ? `since ${startDateLabel}` : "since start";
-
-  // Graph color: use the user-specified color, or default to green or red based on change
-  const graphColor = stockgraphcolor || changeColor;
-
-  // Styles
-  const containerStyle: React.CSSProperties = {
-    padding: "1rem 0.5rem 0.5rem",
-    width: "100%",
-    boxSizing: "border-box",
-    minHeight: "80px",
-    fontSize,
-    fontFamily: "\"Space Grotesk\", \"Helvetica Neue\", Arial, sans-serif",
-    color: "#f8fafc",
-  };
-
-  const graphRowStyle: React.CSSProperties = {
-    width: "100%",
-    marginTop: "0.4rem",
-    position: "relative",
-  };
-
-  const headerStyle: React.CSSProperties = {
-    display: "flex",
-    flexDirection: "column",
-    alignItems: "flex-start",
-    gap: "0.15rem",
-    lineHeight: "20px",
-    fontSize,
-  };
-
-  const headerRowStyle: React.CSSProperties = {
-    width: "100%",
-    display: "flex",
-    alignItems: "baseline",
-    justifyContent: "space-between",
-    gap: "0.5rem",
-  };
-
-  const svgStyle: React.CSSProperties = {
-    marginTop: "0px",
-    transition: "transform 160ms ease, filter 160ms ease",
-    transform: isGraphHover ? "translateY(-2px)" : "translateY(0)",
-    filter: isGraphHover ? "drop-shadow(0 6px 12px rgba(0,0,0,0.12))" : "none",
-    cursor: "pointer",
-  };
-
-  const priceInfoStyle: React.CSSProperties = {
-    textAlign: "left",
-    lineHeight: "1.3em",
-  };
-
-  const hoverRadius = 3;
-  const graphScaleX = graphRowSize.width
-    ? graphRowSize.width / graphBaseWidth
-    : 1;
-  const graphScaleY = graphBaseHeight
-    ? svgHeight / graphBaseHeight
-    : 1;
-  const hoverRadiusX = hoverRadius / graphScaleX;
-  const hoverRadiusY = hoverRadius / graphScaleY;
 
+  const locale = toLocale(contentLanguage);
+  // stable context values, so that re-renders don't reach every consumer in the card
+  const widgetTheme = useMemo(() => createTheme(colorTheme, theme), [colorTheme, theme]);
+  const messages = useMemo(
+    () => getMessages(locale, toMessageOverrides(labels)),
+    [locale, labels]
+  );
   return (
-    <div ref={containerRef} className="stockwidget-container" style={containerStyle}>
-      <div className="stockwidget-header" style={headerStyle}>
-        <div className="stockwidget-headerRow" style={headerRowStyle}>
-          <div className="stockwidget-price" style={priceInfoStyle}>
-            {latestClose !== null && (
-              <div
-                style={{
-                  fontSize,
-                  fontWeight: 600,
-                  fontVariantNumeric: "tabular-nums",
-                }}
-              >
-                ${latestClose.toFixed(2)}
-              </div>
-            )}
-          </div>
-          <div
-            className="stockwidget-symbol"
-            style={{
-              fontWeight: 600,
-              letterSpacing: "-0.01em",
-              textAlign: "right",
-            }}
-          >
-            {symbol}
-          </div>
-        </div>
-        {rangeChange !== null && (
-          <div
-            style={{
-              color: "#f8fafc",
-              fontSize: dailyChangeFontSize,
-              fontWeight: 600,
-              fontVariantNumeric: "tabular-nums",
-              display: "flex",
-              alignItems: "center",
-              gap: "0.35rem",
-            }}
-          >
-            <svg
-              width="10"
-              height="10"
-              viewBox="0 0 10 10"
-              aria-hidden="true"
-              focusable="false"
-              style={{ display: "block" }}
-            >
-              <polygon
-                points={rangeChange >= 0 ? "5,0 10,10 0,10" : "0,0 10,0 5,10"}
-                fill={changeColor}
-              />
-            </svg>
-            {changePercent !== null && (
-              <span style={{ color: changeColor }}>
-                {rangeChange >= 0 ? "+" : "-"}
-                {Math.abs(changePercent).toFixed(2)}%
-              </span>
-            )}
-            <span style={{ fontWeight: 400, color: "rgba(248, 250, 252, 0.72)" }}>
-              {sinceLabel}
-            </span>
-          </div>
-        )}
-        {loading && <div>Loading data...</div>}
-      </div>
-      <div
-        ref={graphRowRef}
-        className="stockwidget-graphRow"
-        style={graphRowStyle}
-      >
-        {closingPrices.length > 1 && (
-          <svg
-            className="stockwidget-chart"
-            width="100%"
-            height={svgHeight}
-            viewBox="0 0 200 160"
-            preserveAspectRatio="none"
-            style={{ ...svgStyle, display: "block" }}
-            onMouseEnter={() => setIsGraphHover(true)}
-            onMouseLeave={() => {
-              setIsGraphHover(false);
-              setHoveredIndex(null);
-              setTooltip(null);
-            }}
-            onMouseMove={(event) => {
-              const rect = event.currentTarget.getBoundingClientRect();
-              const x = event.clientX - rect.left;
-              const scaledX = (x / rect.width) * graphBaseWidth;
-              const points = getGraphPoints(closingPrices, closingDates);
-              if (!points.length) return;
-              const step = graphBaseWidth / (points.length - 1);
-              const index = Math.max(
-                0,
-                Math.min(points.length - 1, Math.round(scaledX / step))
-              );
-              setHoveredIndex(index);
-              const point = points[index];
-              if (!point) return;
-              setTooltip({
-                x: (point.x / graphBaseWidth) * rect.width,
-                y: (point.y / graphBaseHeight) * rect.height,
-                price: point.price,
-                date: point.date,
-              });
-            }}
-            onClick={() =>
-              setActiveWeeks((current) =>
-                current === baseWeeks ? toggleWeeks : baseWeeks
-              )
-            }
-          >
-            <defs>
-              <filter
-                id={`${gradientId}-glow`}
-                x="-30%"
-                y="-30%"
-                width="160%"
-                height="160%"
-              >
-                <feGaussianBlur in="SourceGraphic" stdDeviation="0.8" result="blur" />
-                <feMerge>
-                  <feMergeNode in="blur" />
-                  <feMergeNode in="SourceGraphic" />
-                </feMerge>
-              </filter>
-              <linearGradient id={gradientId} x1="0%" y1="0%" x2="100%" y2="0%">
-                <stop
-                  offset="0%"
-                  stopColor={graphColor}
-                  stopOpacity={isGraphHover ? 0.4 : 0.26}
-                />
-                <stop
-                  offset="60%"
-                  stopColor={graphColor}
-                  stopOpacity={isGraphHover ? 0.6 : 0.42}
-                />
-                <stop
-                  offset="100%"
-                  stopColor={graphColor}
-                  stopOpacity={isGraphHover ? 0.8 : 0.64}
-                />
-              </linearGradient>
-            </defs>
-            <path
-              d={generateSvgAreaPath(closingPrices)}
-              fill={`url(#${gradientId})`}
-            />
-            <path
-              d={generateSvgPath(closingPrices)}
-              stroke={graphColor}
-              strokeWidth={2}
-              fill="none"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              vectorEffect="non-scaling-stroke"
-              filter={`url(#${gradientId}-glow)`}
-            />
-            {(() => {
-              const points = getGraphPoints(closingPrices, closingDates);
-              if (hoveredIndex === null || !points[hoveredIndex]) return null;
-              const point = points[hoveredIndex];
-              return (
-                <ellipse
-                  cx={point.x}
-                  cy={point.y}
-                  rx={hoverRadiusX}
-                  ry={hoverRadiusY}
-                  fill="#ffffff"
-                />
-              );
-            })()}
-          </svg>
-        )}
-        {tooltip && (
-          <div
-            style={{
-              position: "absolute",
-              left: tooltip.x,
-              top: tooltip.y,
-              transform:
-                tooltip.y < 28
-                  ? "translate(-50%, 10px)"
-                  : "translate(-50%, -110%)",
-              background: "#ffffff",
-              color: "#0f172a",
-              borderRadius: "12px",
-              padding: "6px 8px",
-              fontSize: "11px",
-              fontWeight: 600,
-              lineHeight: "1.1",
-              textAlign: "center",
-              minWidth: "64px",
-              maxWidth: "110px",
-              boxShadow: "0 8px 18px rgba(15, 23, 42, 0.12)",
-              border: "1px solid rgba(15, 23, 42, 0.08)",
-              pointerEvents: "none",
-              whiteSpace: "nowrap",
-            }}
-          >
-            <div style={{ fontVariantNumeric: "tabular-nums" }}>
-              ${tooltip.price.toFixed(2)}
-            </div>
-            <div
-              style={{
-                fontSize: "10px",
-                fontWeight: 500,
-                color: "#475569",
-                marginTop: "2px",
-              }}
-            >
-              {formatDateShort(tooltip.date)}
-            </div>
-          </div>
-        )}
-      </div>
-    </div>
+    <ThemeContext.Provider value={widgetTheme}>
+      <LocaleContext.Provider value={locale}>
+        <MessagesContext.Provider value={messages}>
+          {content}
+        </MessagesContext.Provider>
+      </LocaleContext.Provider>
+    </ThemeContext.Provider>
   );
 };
-  const buildFallbackDates = (length: number) => {
-    const today = new Date();
-    const dates: string[] = [];
-    for (let i = length - 1; i >= 0; i--) {
-      const d = new Date(today);
-      d.setDate(today.getDate() - i);
-      dates.push(d.toISOString().split("T")[0]);
-    }
-    return dates;
-  };
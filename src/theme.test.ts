@@ -0,0 +1,57 @@
+import { ColorTheme } from "widget-sdk";
+import getLegacyAppTheme from "../dev/widget-api-mock/legacyTheme";
+import { createTheme, DEFAULT_THEME, isDarkColor, withAlpha } from "./theme";
+
+describe("theme", () => {
+  const light = getLegacyAppTheme();
+  const dark: ColorTheme = {
+    ...light,
+    colors: { ...light.colors, backgroundPrimary: "#1E1E1E", textPrimary: "#F2F2F2" },
+  };
+
+  it("follows the background of the host", () => {
+    expect(createTheme(light)).toMatchObject({
+      mode: "light",
+      text: "#333333",
+      up: "#52b056",
+      down: "#f1493d",
+    });
+    expect(createTheme(dark)).toMatchObject({
+      mode: "dark",
+      text: "#F2F2F2",
+      up: "#74c078",
+      down: "#f46e65",
+    });
+  });
+
+  it("draws tooltips in the host's text and background colors", () => {
+    expect(createTheme(light)).toMatchObject({
+      inverse: "#333333",
+      inverseText: "#FFFFFF",
+      inverseTextMuted: "rgba(255, 255, 255, 0.72)",
+    });
+    expect(createTheme(dark)).toMatchObject({ inverse: "#F2F2F2", inverseText: "#1E1E1E" });
+    expect(createTheme(light, "dark").inverse).toBe(DEFAULT_THEME.inverse);
+  });
+
+  it("lets the setting force a variant", () => {
+    const theme = createTheme(light, "dark");
+
+    expect(theme.mode).toBe("dark");
+    expect(theme.text).toBe(DEFAULT_THEME.text);
+    expect(theme.up).toBe("#74c078");
+  });
+
+  it("keeps the default colors without a host theme", () => {
+    expect(createTheme(null, "auto")).toEqual(DEFAULT_THEME);
+  });
+
+  it("works with hex colors", () => {
+    expect(withAlpha("#6CD28D", 0.3)).toBe("rgba(108, 210, 141, 0.3)");
+    expect(withAlpha("#fff", 0.5)).toBe("rgba(255, 255, 255, 0.5)");
+    expect(withAlpha("blue", 0.5)).toBe("blue");
+    expect(isDarkColor("#1E1E1E")).toBe(true);
+    expect(isDarkColor("#FFFFFF")).toBe(false);
+    expect(isDarkColor("transparent")).toBeNull();
+  });
+});
@@ -0,0 +1,129 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ColorTheme } from "widget-sdk";
+
+export type ThemeMode = "light" | "dark";
+
+/**
+ * Colors of the widget, derived from the theme of the hosting application
+ */
+export interface WidgetTheme {
+  mode: ThemeMode;
+  text: string;
+  textMuted: string;
+  up: string;
+  down: string;
+  /**
+   * Faint fill behind selected rows and controls
+   */
+  subtle: string;
+  /**
+   * Contrasting surface of tooltips and selected controls, with its texts
+   */
+  inverse: string;
+  inverseText: string;
+  inverseTextMuted: string;
+}
+
+const palettes: Record<ThemeMode, WidgetTheme> = {
+  dark: {
+    mode: "dark",
+    text: "#f8fafc",
+    textMuted: "rgba(248, 250, 252, 0.72)",
+    up: "#6CD28D",
+    down: "#ef4444",
+    subtle: "rgba(248, 250, 252, 0.08)",
+    inverse: "#ffffff",
+    inverseText: "#0f172a",
+    inverseTextMuted: "#475569",
+  },
+  light: {
+    mode: "light",
+    text: "#0f172a",
+    textMuted: "rgba(15, 23, 42, 0.64)",
+    up: "#16a34a",
+    down: "#dc2626",
+    subtle: "rgba(15, 23, 42, 0.06)",
+    inverse: "#0f172a",
+    inverseText: "#f8fafc",
+    inverseTextMuted: "rgba(248, 250, 252, 0.72)",
+  },
+};
+
+export const DEFAULT_THEME = palettes.dark;
+
+const parseHex = (color: string): [number, number, number] | null => {
+  const hex = color.trim().replace(/^#/, "");
+  const full = hex.length === 3 ? hex.replace(/./g, "$&$&") : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return null;
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+/**
+ * A hex color with the given opacity; other notations are returned as they are
+ */
+export const withAlpha = (color: string, alpha: number): string => {
+  const rgb = parseHex(color);
+  return rgb ? `rgba(${rgb.join(", ")}, ${alpha})` : color;
+};
+
+/**
+ * Whether a background is dark enough for light text, by its relative luminance
+ */
+export const isDarkColor = (color: string): boolean | null => {
+  const rgb = parseHex(color);
+  if (!rgb) return null;
+  const [r, g, b] = rgb.map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b < 0.4;
+};
+
+/**
+ * The widget colors for the host theme. `setting` forces the light or dark variant;
+ * otherwise it follows the background of the host, or stays dark without a host theme.
+ */
+export const createTheme = (colorTheme: ColorTheme | null, setting?: string): WidgetTheme => {
+  const hostBackground = colorTheme?.colors?.backgroundPrimary ?? "";
+  const hostMode: ThemeMode | null = colorTheme
+    ? isDarkColor(hostBackground) === false
+      ? "light"
+      : "dark"
+    : null;
+  const mode: ThemeMode =
+    setting === "light" || setting === "dark" ? setting : hostMode ?? "dark";
+  const palette = palettes[mode];
+  const colors = colorTheme?.colors;
+  if (!colors) return palette;
+
+  return {
+    ...palette,
+    // the host's texts are only readable on its own background
+    ...(hostMode === mode && {
+      text: colors.textPrimary || palette.text,
+      textMuted: colors.textSecondary || palette.textMuted,
+    }),
+    // tooltips swap the host's text and background
+    ...(hostMode === mode &&
+      colors.textPrimary &&
+      hostBackground && {
+        inverse: colors.textPrimary,
+        inverseText: hostBackground,
+        inverseTextMuted: withAlpha(hostBackground, 0.72),
+      }),
+    up: (mode === "dark" ? colors.greenLight : colors.green) || palette.up,
+    down: (mode === "dark" ? colors.redLight : colors.red) || palette.down,
+  };
+};
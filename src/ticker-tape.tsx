@@ -0,0 +1,191 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React, { ReactElement, useCallback, useEffect, useId, useState } from "react";
+import { DataSourceConfig, StockSeries, useStockSeries } from "./useStockSeries";
+import { useContainerSize } from "./useContainerSize";
+import { usePrefersReducedMotion } from "./usePrefersReducedMotion";
+import { ChangeArrow } from "./change-arrow";
+import { useFormatters, useMessages } from "./locale-context";
+import { formatMessage } from "./messages";
+import { useTheme } from "./theme-context";
+import { ChartRange } from "./range-presets";
+import { SeriesBadges } from "./series-badges";
+
+export interface TickerTapeProps {
+  symbols: string[];
+  range: ChartRange;
+  source: DataSourceConfig;
+}
+
+// Scroll speed of the tape in pixels per second
+const TAPE_SPEED = 40;
+
+type TapeQuote = Pick<StockSeries, "bars" | "details" | "error" | "staleSince" | "isDemo">;
+
+/**
+ * Loads the prices of one symbol and hands them to the tape, which shows them twice
+ */
+const TapeQuoteLoader = ({
+  symbol,
+  range,
+  source,
+  onQuote,
+}: {
+  symbol: string;
+  range: ChartRange;
+  source: DataSourceConfig;
+  onQuote: (symbol: string, quote: TapeQuote) => void;
+}): null => {
+  const { bars, details, error, staleSince, isDemo } = useStockSeries(symbol, range, source);
+
+  useEffect(() => {
+    onQuote(symbol, { bars, details, error, staleSince, isDemo });
+  }, [onQuote, symbol, bars, details, error, staleSince, isDemo]);
+
+  return null;
+};
+
+const TapeItem = ({ symbol, quote }: { symbol: string; quote?: TapeQuote }): ReactElement => {
+  const { bars = [], details = null, error = null, staleSince = null, isDemo = false } =
+    quote ?? {};
+  const prices = bars.map((bar) => bar.close);
+  const latestClose = prices.length ? prices[prices.length - 1] : null;
+
+  const rangeChange = prices.length > 1 ? prices[prices.length - 1] - prices[0] : null;
+  const changePercent =
+    rangeChange !== null ? (rangeChange / (prices[0] || 1)) * 100 : null;
+  const formatters = useFormatters(details?.currency);
+  const theme = useTheme();
+  const changeColor = rangeChange !== null && rangeChange >= 0 ? theme.up : theme.down;
+
+  return (
+    <span
+      className="stockwidget-tapeItem"
+      style={{
+        display: "inline-flex",
+        alignItems: "center",
+        gap: "0.4rem",
+        padding: "0 1.25rem",
+        whiteSpace: "nowrap",
+        fontVariantNumeric: "tabular-nums",
+      }}
+    >
+      <span style={{ fontWeight: 600 }}>{symbol}</span>
+      <SeriesBadges isDemo={isDemo} staleSince={staleSince} error={error} />
+      {!error && latestClose !== null && <span>{formatters.price(latestClose)}</span>}
+      {rangeChange !== null && changePercent !== null && (
+        <span
+          style={{
+            display: "inline-flex",
+            alignItems: "center",
+            gap: "0.25rem",
+            color: changeColor,
+            fontSize: "0.85rem",
+            fontWeight: 600,
+          }}
+        >
+          <ChangeArrow up={rangeChange >= 0} color={changeColor} size={8} />
+          {formatters.change(changePercent)}
+        </span>
+      )}
+    </span>
+  );
+};
+
+/**
+ * Scrolls the symbols horizontally in an endless loop. The item list is rendered twice from
+ * the same quotes and the track moves by the width of one copy, so the loop has no visible seam.
+ * It stands still while hovered or focused, if everything fits, and for reduced motion.
+ */
+export const TickerTape = ({ symbols, range, source }: TickerTapeProps): ReactElement => {
+  const [containerRef, containerSize] = useContainerSize<HTMLDivElement>();
+  const [itemsRef, itemsSize] = useContainerSize<HTMLDivElement>();
+  const reducedMotion = usePrefersReducedMotion();
+  const [paused, setPaused] = useState(false);
+  const messages = useMessages();
+  const theme = useTheme();
+  const animationName = `stockwidget-tape-${useId().replace(/:/g, "")}`;
+
+  const overflows = itemsSize.width > containerSize.width;
+  const animated = overflows && !reducedMotion;
+  const duration = itemsSize.width / TAPE_SPEED;
+
+  const [quotes, setQuotes] = useState<Record<string, TapeQuote>>({});
+  const onQuote = useCallback(
+    (symbol: string, quote: TapeQuote) =>
+      setQuotes((current) => ({ ...current, [symbol]: quote })),
+    []
+  );
+
+  const items = symbols.map((symbol) => (
+    <TapeItem key={symbol} symbol={symbol} quote={quotes[symbol]} />
+  ));
+
+  return (
+    <div
+      ref={containerRef}
+      className="stockwidget-tape"
+      role="marquee"
+      aria-label={formatMessage(messages.tapeLabel, { symbols: symbols.join(", ") })}
+      tabIndex={0}
+      onMouseEnter={() => setPaused(true)}
+      onMouseLeave={() => setPaused(false)}
+      onFocus={() => setPaused(true)}
+      onBlur={() => setPaused(false)}
+      style={{
+        width: "100%",
+        overflowX: animated ? "hidden" : "auto",
+        padding: "0.5rem 0",
+        fontSize: "1rem",
+        fontFamily: "\"Space Grotesk\", \"Helvetica Neue\", Arial, sans-serif",
+        color: theme.text,
+      }}
+    >
+      {symbols.map((symbol) => (
+        <TapeQuoteLoader
+          key={symbol}
+          symbol={symbol}
+          range={range}
+          source={source}
+          onQuote={onQuote}
+        />
+      ))}
+      {animated && (
+        <style>
+          {`@keyframes ${animationName} { from { transform: translateX(0); } to { transform: translateX(-${itemsSize.width}px); } }`}
+        </style>
+      )}
+      <div
+        className="stockwidget-tapeTrack"
+        style={{
+          display: "flex",
+          width: "max-content",
+          justifyContent: overflows ? "flex-start" : "center",
+          minWidth: "100%",
+          animation: animated ? `${animationName} ${duration}s linear infinite` : "none",
+          animationPlayState: paused ? "paused" : "running",
+        }}
+      >
+        <div ref={itemsRef} style={{ display: "flex", flexShrink: 0 }}>
+          {items}
+        </div>
+        {animated && (
+          <div aria-hidden="true" style={{ display: "flex", flexShrink: 0 }}>
+            {items}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import { act, renderHook } from "@testing-library/react";
+import { OhlcvBar } from "./providers";
+import { appendTrade, useLivePrice } from "./useLivePrice";
+import { MarketDataProvider } from "./providers";
+import {
+  installReplaySocket,
+  REPLAY_REJECTED_API_KEY,
+  REPLAY_SOCKET_URL,
+  REPLAY_TICK_INTERVAL_MS,
+  ReplaySocket,
+} from "../dev/replay-socket";
+
+const bar = (timestamp: string, close: number): OhlcvBar => ({
+  timestamp: Date.parse(timestamp),
+  date: timestamp.slice(0, 10),
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 100,
+});
+
+const trade = (timestamp: string, price: number) => ({ timestamp: Date.parse(timestamp), price });
+
+describe("appendTrade", () => {
+  it("updates today's bar or starts the next day", () => {
+    const bars = [bar("2024-03-14T00:00:00Z", 10), bar("2024-03-15T00:00:00Z", 11)];
+
+    const sameDay = appendTrade(bars, trade("2024-03-15T15:00:00Z", 12));
+    expect(sameDay).toHaveLength(2);
+    expect(sameDay[1]).toMatchObject({ close: 12, high: 12 });
+    expect(appendTrade(bars, trade("2024-03-18T15:00:00Z", 9))[2]).toMatchObject({
+      date: "2024-03-18",
+      open: 11,
+      close: 9,
+    });
+  });
+
+  it("adds evening trades to the day of the exchange", () => {
+    const bars = [bar("2024-01-10T00:00:00Z", 10), bar("2024-01-11T00:00:00Z", 11)];
+    // 7:30 PM in New York is already the next day in UTC
+    const evening = trade("2024-01-12T00:30:00Z", 12);
+
+    expect(appendTrade(bars, evening, "day", "America/New_York")).toEqual([
+      bars[0],
+      { ...bars[1], high: 12, close: 12 },
+    ]);
+    expect(appendTrade(bars, trade("2024-01-12T15:00:00Z", 9), "day", "America/New_York")[2])
+      .toMatchObject({ date: "2024-01-12", open: 11, close: 9 });
+  });
+
+  it("starts a new bar for each minute", () => {
+    const bars = [bar("2024-03-15T14:30:00Z", 10), bar("2024-03-15T14:31:00Z", 11)];
+
+    const sameMinute = appendTrade(bars, trade("2024-03-15T14:31:40Z", 12), "minute");
+    expect(sameMinute).toHaveLength(2);
+    expect(sameMinute[1]).toMatchObject({ close: 12, high: 12 });
+
+    const later = appendTrade(bars, trade("2024-03-15T14:33:20Z", 9), "minute");
+    expect(later).toHaveLength(3);
+    expect(later[2]).toMatchObject({
+      timestamp: Date.parse("2024-03-15T14:33:00Z"),
+      open: 11,
+      close: 9,
+    });
+  });
+
+  it("keeps adding to the week's bar on weekly ranges", () => {
+    // weekly bars may start on Sunday, as polygon's do
+    const bars = [bar("2024-03-03T05:00:00Z", 10), bar("2024-03-10T04:00:00Z", 11)];
+
+    const thisWeek = appendTrade(bars, trade("2024-03-15T19:00:00Z", 12), "week");
+    expect(thisWeek).toHaveLength(2);
+    expect(thisWeek[1]).toMatchObject({ date: "2024-03-10", close: 12 });
+
+    const nextWeek = appendTrade(bars, trade("2024-03-18T14:00:00Z", 13), "week");
+    expect(nextWeek).toHaveLength(3);
+    expect(nextWeek[2]).toMatchObject({ date: "2024-03-17", open: 11, close: 13 });
+  });
+});
+
+describe("useLivePrice", () => {
+  const NativeWebSocket = window.WebSocket;
+  const options = {
+    symbol: "VNI",
+    enabled: true,
+    transport: "websocket" as const,
+    intervalSeconds: 15,
+    socketUrl: REPLAY_SOCKET_URL,
+    provider: null,
+  };
+
+  beforeEach(() => {
+    installReplaySocket();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    window.WebSocket = NativeWebSocket;
+  });
+
+  it("streams the trades of lower case symbols", async () => {
+    const { result } = renderHook(() => useLivePrice({ ...options, symbol: "vni" }));
+
+    await act(() => jest.advanceTimersByTimeAsync(REPLAY_TICK_INTERVAL_MS));
+
+    expect(result.current).toMatchObject({ price: 173.41 });
+  });
+
+  describe("when the stream fails", () => {
+    const polledTrade = { price: 172, timestamp: Date.parse("2024-03-15T15:00:00Z") };
+    const createProvider = () =>
+      ({ fetchLastTrade: jest.fn().mockResolvedValue(polledTrade) }) as unknown as MarketDataProvider;
+
+    beforeEach(() => {
+      jest.spyOn(console, "error").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("polls instead when the api key is rejected", async () => {
+      const provider = createProvider();
+      const { result } = renderHook(() =>
+        useLivePrice({ ...options, provider, apiKey: REPLAY_REJECTED_API_KEY })
+      );
+
+      await act(() => jest.advanceTimersByTimeAsync(0));
+
+      expect(provider.fetchLastTrade).toHaveBeenCalledTimes(1);
+      expect(result.current).toEqual(polledTrade);
+      expect(console.error).toHaveBeenCalledWith("Live price stream error:", expect.any(Error));
+    });
+
+    it("polls instead when the stream keeps closing before the first trade", async () => {
+      // a host refusing the connection closes every socket right away
+      window.WebSocket = class extends ReplaySocket {
+        public constructor(url: string) {
+          super(url);
+          setTimeout(() => this.close(), 0);
+        }
+      } as unknown as typeof WebSocket;
+      const provider = createProvider();
+      renderHook(() => useLivePrice({ ...options, provider }));
+
+      // closed at once and after the first reconnect a second later
+      await act(() => jest.advanceTimersByTimeAsync(1500));
+      expect(provider.fetchLastTrade).not.toHaveBeenCalled();
+
+      await act(() => jest.advanceTimersByTimeAsync(2000));
+      expect(provider.fetchLastTrade).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { Granularity, MarketDataError, MarketDataProvider, OhlcvBar, Trade } from "./providers";
+import { toIsoDate } from "./providers/http";
+import { openTradeStream } from "./providers/polygon-stream";
+import { getZonedTime } from "./market-calendar";
+
+export type LiveTransport = "polling" | "websocket";
+
+export const liveTransports: LiveTransport[] = ["polling", "websocket"];
+
+export const DEFAULT_LIVE_INTERVAL_SECONDS = 15;
+
+// Reconnect delays for dropped streams grow up to this limit
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+// A stream that closes this often before its first trade is given up for polling
+const MAX_FAILED_CONNECTS = 3;
+
+// Length of the bars trades are added to; daily bars are matched by their day instead
+const barDurations: Record<Exclude<Granularity, "day">, number> = {
+  minute: 60_000,
+  hour: 60 * 60_000,
+  week: 7 * 24 * 60 * 60_000,
+};
+
+interface LivePriceOptions {
+  symbol: string;
+  enabled: boolean;
+  transport: LiveTransport;
+  intervalSeconds: number;
+  socketUrl: string;
+  provider: MarketDataProvider | null;
+  apiKey?: string;
+}
+
+/**
+ * Follows the current trade price of a symbol, either by polling the provider or through
+ * a streaming connection. A stream that cannot be opened, rejects the api key or keeps closing
+ * before its first trade falls back to polling.
+ * Returns null until the first trade arrives or when disabled.
+ */
+export const useLivePrice = ({
+  symbol,
+  enabled,
+  transport,
+  intervalSeconds,
+  socketUrl,
+  provider,
+  apiKey,
+}: LivePriceOptions): Trade | null => {
+  const [trade, setTrade] = useState<Trade | null>(null);
+
+  useEffect(() => {
+    setTrade(null);
+    if (!enabled || !symbol) return;
+
+    const startPolling = () => {
+      if (!provider) return undefined;
+      const controller = new AbortController();
+      const poll = async () => {
+        try {
+          const next = await provider.fetchLastTrade(symbol, controller.signal);
+          if (!controller.signal.aborted) setTrade(next);
+        } catch (error) {
+          if (!controller.signal.aborted) console.error("Error fetching live price:", error);
+        }
+      };
+      poll();
+      const timer = setInterval(poll, Math.max(1, intervalSeconds) * 1000);
+
+      return () => {
+        controller.abort();
+        clearInterval(timer);
+      };
+    };
+
+    if (transport === "websocket") {
+      let closeStream: (() => void) | null = null;
+      let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+      let attempt = 0;
+      let hasTraded = false;
+      let isPolling = false;
+      let stopPolling: (() => void) | undefined;
+
+      const fallBackToPolling = () => {
+        if (isPolling) return;
+        isPolling = true;
+        clearTimeout(reconnectTimer);
+        closeStream?.();
+        closeStream = null;
+        stopPolling = startPolling();
+      };
+
+      const connect = () => {
+        closeStream = openTradeStream({
+          url: socketUrl,
+          symbol,
+          apiKey,
+          onTrade: (next) => {
+            attempt = 0;
+            hasTraded = true;
+            setTrade(next);
+          },
+          onError: (error) => {
+            console.error("Live price stream error:", error);
+            // reconnecting with a rejected key can't succeed
+            if (error instanceof MarketDataError && error.status === 401) fallBackToPolling();
+          },
+          onClose: () => {
+            if (!hasTraded && attempt + 1 >= MAX_FAILED_CONNECTS) {
+              fallBackToPolling();
+              return;
+            }
+            const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempt++);
+            reconnectTimer = setTimeout(connect, delay);
+          },
+        });
+        if (!closeStream) fallBackToPolling();
+      };
+      connect();
+
+      return () => {
+        clearTimeout(reconnectTimer);
+        closeStream?.();
+        stopPolling?.();
+      };
+    }
+
+    return startPolling();
+  }, [symbol, enabled, transport, intervalSeconds, socketUrl, provider, apiKey]);
+
+  return trade;
+};
+
+/**
+ * Extends the bars with a trade: it updates the bar the trade falls into, or starts a new one
+ * opening at the last close. Daily bars are matched by the session date in the exchange's
+ * time zone, so that evening trades don't start the next day; without one by the UTC date.
+ */
+export const appendTrade = (
+  bars: OhlcvBar[],
+  trade: Trade,
+  granularity: Granularity = "day",
+  timeZone?: string
+): OhlcvBar[] => {
+  const last = bars[bars.length - 1];
+  if (!last) return bars;
+  let timestamp = trade.timestamp;
+  let date = timeZone
+    ? getZonedTime(trade.timestamp, timeZone).date
+    : toIsoDate(trade.timestamp);
+  let isSameBar = last.date === date;
+  if (granularity !== "day") {
+    // buckets continue from the last bar, however the provider aligns them
+    const duration = barDurations[granularity];
+    const elapsed = trade.timestamp - last.timestamp;
+    if (elapsed < 0) return bars;
+    isSameBar = elapsed < duration;
+    timestamp = last.timestamp + Math.floor(elapsed / duration) * duration;
+    date = toIsoDate(timestamp);
+  }
+  if (isSameBar) {
+    return [
+      ...bars.slice(0, -1),
+      {
+        ...last,
+        high: Math.max(last.high, trade.price),
+        low: Math.min(last.low, trade.price),
+        close: trade.price,
+      },
+    ];
+  }
+  return [
+    ...bars,
+    {
+      timestamp,
+      date,
+      open: last.close,
+      high: Math.max(last.close, trade.price),
+      low: Math.min(last.close, trade.price),
+      close: trade.price,
+      volume: 0,
+    },
+  ];
+};
+
+/**
+ * Returns the direction of the latest price change for a short moment after it happened
+ */
+export const usePriceFlash = (price: number | null, durationMs = 800): "up" | "down" | null => {
+  const previous = useRef(price);
+  const [flash, setFlash] = useState<"up" | "down" | null>(null);
+
+  useEffect(() => {
+    const last = previous.current;
+    previous.current = price;
+    if (price === null || last === null || price === last) return;
+
+    setFlash(price > last ? "up" : "down");
+    const timer = setTimeout(() => setFlash(null), durationMs);
+    return () => clearTimeout(timer);
+  }, [price, durationMs]);
+
+  return flash;
+};
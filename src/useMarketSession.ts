@@ -0,0 +1,39 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useEffect, useState } from "react";
+import { ExchangeCalendar, getMarketSession, MarketSession } from "./market-calendar";
+
+// Sessions change on full minutes
+const CLOCK_INTERVAL_MS = 60_000;
+
+export interface MarketClock {
+  session: MarketSession | null;
+  now: number;
+}
+
+/**
+ * The current session of an exchange, updated every minute. The session is null without a calendar.
+ */
+export const useMarketSession = (calendar: ExchangeCalendar | null): MarketClock => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!calendar) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [calendar]);
+
+  return { session: calendar ? getMarketSession(calendar, now) : null, now };
+};
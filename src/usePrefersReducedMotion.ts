@@ -0,0 +1,36 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useEffect, useState } from "react";
+
+const QUERY = "(prefers-reduced-motion: reduce)";
+
+/**
+ * Whether the user asked the system to minimize non-essential motion
+ */
+export const usePrefersReducedMotion = (): boolean => {
+  const [reduced, setReduced] = useState(
+    () => typeof window.matchMedia === "function" && window.matchMedia(QUERY).matches
+  );
+
+  useEffect(() => {
+    if (typeof window.matchMedia !== "function") return;
+    const mediaQuery = window.matchMedia(QUERY);
+    const onChange = () => setReduced(mediaQuery.matches);
+    mediaQuery.addEventListener("change", onChange);
+    onChange();
+    return () => mediaQuery.removeEventListener("change", onChange);
+  }, []);
+
+  return reduced;
+};
@@ -0,0 +1,52 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { RefObject, useEffect, useRef } from "react";
+import {
+  AlertDirection,
+  getAlertDirection,
+  PRICE_ALERT_EVENT,
+  PriceAlertDetail,
+  PriceAlerts,
+} from "./price-levels";
+
+/**
+ * Follows whether the price is beyond an alert threshold. Each time it crosses one, a
+ * PRICE_ALERT_EVENT bubbles up from the target element, so the page can react to it.
+ * The first price of a symbol only tells where it starts, being beyond a threshold already
+ * is no crossing.
+ */
+export const usePriceAlert = (
+  target: RefObject<HTMLElement>,
+  symbol: string,
+  price: number | null,
+  alerts: PriceAlerts
+): AlertDirection | null => {
+  const direction = getAlertDirection(price, alerts);
+  const previous = useRef<{ symbol: string; direction: AlertDirection | null } | null>(null);
+
+  useEffect(() => {
+    if (price === null) return;
+    const last = previous.current;
+    previous.current = { symbol, direction };
+    if (!last || last.symbol !== symbol || direction === last.direction || !direction) return;
+    const threshold = alerts[direction];
+    if (threshold === null) return;
+    const detail: PriceAlertDetail = { symbol, price, direction, threshold };
+    target.current?.dispatchEvent(
+      new CustomEvent(PRICE_ALERT_EVENT, { detail, bubbles: true, composed: true })
+    );
+  }, [direction, target, symbol, price, alerts]);
+
+  return direction;
+};
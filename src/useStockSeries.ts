@@ -0,0 +1,609 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { WidgetApi } from "widget-sdk";
+import {
+  createProvider,
+  Granularity,
+  MarketDataProvider,
+  OhlcvBar,
+  ProviderConfigError,
+  TickerDetails,
+} from "./providers";
+import {
+  CredentialsConfig,
+  CredentialsError,
+  CredentialsProblem,
+  resolveCredentials,
+  toCredentialsError,
+} from "./credentials";
+import { cachedFetch, quoteCacheKey, readCachedEntry } from "./quote-cache";
+import { useWidgetApi } from "./widget-api-context";
+import { getExchangeCalendar, getZonedTime } from "./market-calendar";
+import {
+  ChartRange,
+  getRangeGranularity,
+  getRangeStart,
+  getWarmupStart,
+  isIntraday,
+} from "./range-presets";
+
+/**
+ * Symbol which is served from built-in demo data instead of the provider
+ */
+export const DEMO_SYMBOL = "VNI";
+
+const DEMO_DETAILS: TickerDetails = {
+  symbol: DEMO_SYMBOL,
+  name: "Demo stock",
+  description:
+    "VNI is not a real stock. It shows made up prices so that the widget can be previewed " +
+    "without a data provider. Enter a ticker symbol such as AAPL to show real prices.",
+};
+
+/**
+ * Where and how market data is loaded, shared by all symbols of a widget
+ */
+export interface DataSourceConfig {
+  provider: string;
+  endpoint: string;
+  credentials: CredentialsConfig;
+  cacheTtl: number;
+}
+
+export interface DataSource {
+  provider: MarketDataProvider;
+  apiKey?: string;
+}
+
+/**
+ * Why no prices are shown: a credentials problem, or the provider failed
+ */
+export type SeriesError = CredentialsProblem | "misconfigured" | "failed";
+
+/**
+ * Failed requests are retried after 1, 2, 4, 8 and 16 seconds
+ */
+export const MAX_RETRIES = 5;
+export const RETRY_BASE_DELAY_MS = 1000;
+
+export const getRetryDelay = (retries: number): number => RETRY_BASE_DELAY_MS * 2 ** retries;
+
+export interface StockSeries {
+  bars: OhlcvBar[];
+  /**
+   * Bars right before the range, as many as the requested warm-up
+   */
+  history: OhlcvBar[];
+  granularity: Granularity;
+  details: TickerDetails | null;
+  prices: number[];
+  dates: string[];
+  latestClose: number | null;
+  loading: boolean;
+  /**
+   * Why no prices can be loaded; the components show a text for it
+   */
+  error: SeriesError | null;
+  signIn: (() => void) | null;
+  /**
+   * Loads again right away, e.g. after an error
+   */
+  retry: () => void;
+  /**
+   * When the shown bars were loaded, if the provider failed and they come from an expired cache entry
+   */
+  staleSince: number | null;
+  isDemo: boolean;
+  dataSource: DataSource | null;
+}
+
+const fallbackClosingPrices2 = [
+  141, 132, 147, 159, 163, 154, 120, 175, 160.02, 185.06,
+];
+const fallbackClosingPrices4 = [
+  120, 123, 127, 124, 130, 134, 132, 138, 136, 140, 143, 141, 145, 149, 147,
+  151, 154, 152, 156, 160, 158, 162, 165, 163, 168, 171, 169, 173.2,
+];
+
+const granularityMs: Record<Granularity, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 604_800_000,
+};
+
+/**
+ * Bars ending now around the given closes: each bar opens at the previous close
+ * and trades a little beyond open and close
+ */
+const buildFallbackBars = (closes: number[], granularity: Granularity = "day"): OhlcvBar[] => {
+  const now = Date.now();
+  return closes.map((close, i) => {
+    const d = new Date(now - (closes.length - 1 - i) * granularityMs[granularity]);
+    const open = i > 0 ? closes[i - 1] : close;
+    return {
+      timestamp: d.getTime(),
+      date: d.toISOString().split("T")[0],
+      open,
+      high: Math.round(Math.max(open, close) * 100.6) / 100,
+      low: Math.round(Math.min(open, close) * 99.4) / 100,
+      close,
+      volume: 1_000_000 + ((i * 7919) % 600_000),
+    };
+  });
+};
+
+/**
+ * Made up closes for ranges without a fixed demo series, ending where the 2 week series ends
+ */
+const buildFallbackClosingPrices = (count: number): number[] =>
+  Array.from({ length: count }, (_, i) => {
+    const barsBack = count - 1 - i;
+    return Math.round((185.06 - barsBack * 0.03 + 6 * Math.sin(barsBack / 5)) * 100) / 100;
+  });
+
+// A regular session has 390 minutes
+const SESSION_MINUTES = 390;
+
+/**
+ * Dates of intraday bars include the time, so that every bar has its own
+ */
+export const getBarDate = (bar: OhlcvBar, granularity: Granularity): string =>
+  isIntraday(granularity) ? new Date(bar.timestamp).toISOString() : bar.date;
+
+interface LoadedSeries {
+  bars: OhlcvBar[];
+  history: OhlcvBar[];
+  details: TickerDetails | null;
+  dataSource: DataSource | null;
+  staleSince?: number;
+}
+
+/**
+ * Made up closes leading up to a fixed demo series, swinging around its first close
+ */
+const buildFallbackHistory = (count: number, firstClose: number): number[] =>
+  Array.from({ length: count }, (_, i) => {
+    const barsBack = count - i;
+    return Math.round(firstClose * (1 + 0.03 * Math.sin(barsBack / 3)) * 100) / 100;
+  });
+
+const loadDemoSeries = (range: ChartRange, warmup: number): LoadedSeries => {
+  const granularity = getRangeGranularity(range);
+  let closes: number[];
+  if (range === "2w" || range === "4w") {
+    const fixed = range === "2w" ? fallbackClosingPrices2 : fallbackClosingPrices4;
+    closes = [...buildFallbackHistory(warmup, fixed[0]), ...fixed];
+  } else {
+    const today = new Date();
+    const count =
+      range === "1D"
+        ? SESSION_MINUTES
+        : Math.round(
+            (today.getTime() - getRangeStart(range, today).getTime()) / granularityMs[granularity]
+          );
+    closes = buildFallbackClosingPrices(Math.max(count, 2) + warmup);
+  }
+  const bars = buildFallbackBars(closes, granularity);
+  return {
+    bars: bars.slice(warmup),
+    history: bars.slice(0, warmup),
+    details: DEMO_DETAILS,
+    dataSource: null,
+  };
+};
+
+/**
+ * Separates the bars of the range from the warm-up bars before its start.
+ * One day shows the latest session only, by its date in the exchange's time zone so that
+ * evening trades stay with their session; without a time zone by the UTC date.
+ */
+const splitHistory = (
+  range: ChartRange,
+  bars: OhlcvBar[],
+  start: Date,
+  warmup: number,
+  timeZone?: string
+): Pick<LoadedSeries, "bars" | "history"> => {
+  const getSessionDate = (bar: OhlcvBar) =>
+    timeZone ? getZonedTime(bar.timestamp, timeZone).date : bar.date;
+  const lastBar = bars[bars.length - 1];
+  const lastDate = lastBar && getSessionDate(lastBar);
+  const isHistory = (bar: OhlcvBar) =>
+    range === "1D" ? getSessionDate(bar) !== lastDate : bar.timestamp < start.getTime();
+  return {
+    bars: bars.filter((bar) => !isHistory(bar)),
+    history: warmup > 0 ? bars.filter(isHistory).slice(-warmup) : [],
+  };
+};
+
+/**
+ * Loads the bars and ticker details of a symbol over the given range through the cache.
+ * Rejects with a CredentialsError if there are no usable credentials. When the provider
+ * fails, the last cached bars are returned as stale, otherwise the error is passed on.
+ *
+ * @param warmup how many bars before the range to load as well, e.g. for indicators
+ */
+export const loadStockSeries = async (
+  symbol: string,
+  range: ChartRange,
+  { provider: providerId, endpoint, credentials, cacheTtl }: DataSourceConfig,
+  widgetApi: WidgetApi | null,
+  warmup = 0
+): Promise<LoadedSeries> => {
+  // Bypass API if symbol is "VNI" for demo
+  if (symbol === DEMO_SYMBOL) {
+    return loadDemoSeries(range, warmup);
+  }
+
+  const today = new Date();
+  const startDate = getRangeStart(range, today);
+  const granularity = getRangeGranularity(range);
+
+  let seriesKey: string | null = null;
+  let details: TickerDetails | null = null;
+  let dataSource: DataSource | null = null;
+  try {
+    const resolved = await resolveCredentials(
+      credentials,
+      widgetApi,
+      providerId !== "custom"
+    );
+    const provider = createProvider(providerId, {
+      ...resolved,
+      endpoint,
+    });
+    dataSource = { provider, apiKey: resolved.apiKey };
+    const cacheScope =
+      provider.id === "custom" ? `custom:${endpoint}` : provider.id;
+    const detailsKey = quoteCacheKey({
+      provider: cacheScope,
+      symbol,
+      range: "details",
+      granularity: "none",
+    });
+    // the prices are shown without details, e.g. for providers that don't have them
+    details = await cachedFetch(detailsKey, cacheTtl, () => provider.fetchDetails(symbol)).catch(
+      (error) => {
+        if (toCredentialsError(error) instanceof CredentialsError) throw error;
+        return readCachedEntry<TickerDetails>(detailsKey)?.value ?? null;
+      }
+    );
+
+    seriesKey = quoteCacheKey({
+      provider: cacheScope,
+      symbol,
+      range: warmup > 0 ? `${range}+${warmup}` : range,
+      granularity,
+    });
+    const from = getWarmupStart(startDate, granularity, warmup);
+    const bars = await cachedFetch(seriesKey, cacheTtl, () =>
+      provider.fetchSeries({ symbol, from, to: today, granularity })
+    );
+
+    const timeZone = getExchangeCalendar(details?.exchange)?.timeZone;
+    return { ...splitHistory(range, bars, startDate, warmup, timeZone), details, dataSource };
+  } catch (error) {
+    const credentialsError = toCredentialsError(error);
+    if (credentialsError instanceof CredentialsError) {
+      throw credentialsError;
+    }
+
+    const stale = seriesKey ? readCachedEntry<OhlcvBar[]>(seriesKey) : undefined;
+    if (!stale) throw error;
+    return {
+      // the range of stale bars started when they were loaded
+      ...splitHistory(
+        range,
+        stale.value,
+        getRangeStart(range, new Date(stale.storedAt)),
+        warmup,
+        getExchangeCalendar(details?.exchange)?.timeZone
+      ),
+      details,
+      dataSource,
+      staleSince: stale.storedAt,
+    };
+  }
+};
+
+/**
+ * Loads the bars and ticker details of a symbol over the given range, and optionally the
+ * given number of bars before it
+ */
+export const useStockSeries = (
+  symbol: string,
+  range: ChartRange,
+  config: DataSourceConfig,
+  warmup = 0
+): StockSeries => {
+  const widgetApi = useWidgetApi();
+  const { provider, endpoint, cacheTtl } = config;
+  const { source: credentialSource, apiKey, proxyUrl, integration } = config.credentials;
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<SeriesError | null>(null);
+  const [signIn, setSignIn] = useState<(() => void) | null>(null);
+  const [bars, setBars] = useState<OhlcvBar[]>([]);
+  const [history, setHistory] = useState<OhlcvBar[]>([]);
+  const [details, setDetails] = useState<TickerDetails | null>(null);
+  const [dataSource, setDataSource] = useState<DataSource | null>(null);
+  const [staleSince, setStaleSince] = useState<number | null>(null);
+  // every change of `reload` loads again
+  const [reload, setReload] = useState(0);
+  // the automatic attempts of the current symbol, range and source
+  const retries = useRef(0);
+
+  useEffect(() => {
+    retries.current = 0;
+  }, [
+    warmup,
+    symbol,
+    range,
+    provider,
+    endpoint,
+    credentialSource,
+    apiKey,
+    proxyUrl,
+    integration,
+    widgetApi,
+    cacheTtl,
+  ]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleRetry = () => {
+      if (retries.current >= MAX_RETRIES) return;
+      const delay = getRetryDelay(retries.current++);
+      retryTimer = setTimeout(() => setReload((current) => current + 1), delay);
+    };
+    setLoading(true);
+    setSignIn(null);
+
+    loadStockSeries(
+      symbol,
+      range,
+      {
+        provider,
+        endpoint,
+        credentials: { source: credentialSource, apiKey, proxyUrl, integration },
+        cacheTtl,
+      },
+      widgetApi,
+      warmup
+    )
+      .then((loaded) => {
+        if (controller.signal.aborted) return;
+        setError(null);
+        setBars(loaded.bars);
+        setHistory(loaded.history);
+        setDetails(loaded.details);
+        setDataSource(loaded.dataSource);
+        setStaleSince(loaded.staleSince ?? null);
+        // keep trying to replace stale bars
+        if (loaded.staleSince !== undefined) {
+          scheduleRetry();
+        } else {
+          retries.current = 0;
+        }
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) return;
+        console.error("Error fetching data:", error);
+        // no made up prices, the error is shown instead
+        setBars([]);
+        setHistory([]);
+        setDetails(null);
+        setDataSource(null);
+        setStaleSince(null);
+        if (error instanceof CredentialsError) {
+          setError(error.problem);
+          setSignIn(() => error.signIn ?? null);
+        } else if (error instanceof ProviderConfigError) {
+          setError("misconfigured");
+        } else {
+          setError("failed");
+          scheduleRetry();
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+    };
+  }, [
+    reload,
+    warmup,
+    symbol,
+    range,
+    provider,
+    endpoint,
+    credentialSource,
+    apiKey,
+    proxyUrl,
+    integration,
+    widgetApi,
+    cacheTtl,
+  ]);
+
+  const granularity = getRangeGranularity(range);
+  const prices = bars.map((bar) => bar.close);
+  const dates = bars.map((bar) => getBarDate(bar, granularity));
+  const latestClose = prices.length ? prices[prices.length - 1] : null;
+  const retry = useCallback(() => {
+    retries.current = 0;
+    setReload((current) => current + 1);
+  }, []);
+  return {
+    bars,
+    history,
+    granularity,
+    details,
+    prices,
+    dates,
+    latestClose,
+    loading,
+    error,
+    signIn,
+    retry,
+    staleSince,
+    isDemo: symbol === DEMO_SYMBOL,
+    dataSource,
+  };
+};
+
+export interface ComparisonSeries {
+  symbol: string;
+  prices: number[];
+  dates: string[];
+}
+
+/**
+ * Loads the daily closes of several symbols, e.g. peers or a benchmark to compare against.
+ * Symbols that can't be loaded are left out.
+ */
+export const useComparisonSeries = (
+  symbols: string[],
+  range: ChartRange,
+  config: DataSourceConfig
+): ComparisonSeries[] => {
+  const widgetApi = useWidgetApi();
+  const { provider, endpoint, cacheTtl } = config;
+  const { source: credentialSource, apiKey, proxyUrl, integration } = config.credentials;
+  const symbolKey = symbols.join(",");
+  const [series, setSeries] = useState<ComparisonSeries[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const sourceConfig: DataSourceConfig = {
+      provider,
+      endpoint,
+      credentials: { source: credentialSource, apiKey, proxyUrl, integration },
+      cacheTtl,
+    };
+
+    Promise.allSettled(
+      symbolKey
+        .split(",")
+        .filter(Boolean)
+        .map(async (symbol) => ({
+          symbol,
+          ...(await loadStockSeries(symbol, range, sourceConfig, widgetApi)),
+        }))
+    ).then((results) => {
+      if (cancelled) return;
+      setSeries(
+        results.flatMap((result) =>
+          result.status === "fulfilled"
+            ? [
+                {
+                  symbol: result.value.symbol,
+                  prices: result.value.bars.map((bar) => bar.close),
+                  dates: result.value.bars.map((bar) =>
+                    getBarDate(bar, getRangeGranularity(range))
+                  ),
+                },
+              ]
+            : []
+        )
+      );
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    symbolKey,
+    range,
+    provider,
+    endpoint,
+    credentialSource,
+    apiKey,
+    proxyUrl,
+    integration,
+    widgetApi,
+    cacheTtl,
+  ]);
+
+  return series;
+};
+
+export interface PriceRange {
+  high: number;
+  low: number;
+}
+
+/**
+ * The highest and lowest price of the last 52 weeks, loaded separately from the shown range.
+ * Null while loading, when disabled or when the prices can't be loaded.
+ */
+export const useFiftyTwoWeekRange = (
+  symbol: string,
+  config: DataSourceConfig,
+  enabled: boolean
+): PriceRange | null => {
+  const widgetApi = useWidgetApi();
+  const { provider, endpoint, cacheTtl } = config;
+  const { source: credentialSource, apiKey, proxyUrl, integration } = config.credentials;
+  const [priceRange, setPriceRange] = useState<PriceRange | null>(null);
+
+  useEffect(() => {
+    setPriceRange(null);
+    if (!enabled) return;
+    let cancelled = false;
+
+    loadStockSeries(
+      symbol,
+      "1Y",
+      {
+        provider,
+        endpoint,
+        credentials: { source: credentialSource, apiKey, proxyUrl, integration },
+        cacheTtl,
+      },
+      widgetApi
+    )
+      .then(({ bars }) => {
+        if (cancelled || !bars.length) return;
+        setPriceRange({
+          high: Math.max(...bars.map((bar) => bar.high)),
+          low: Math.min(...bars.map((bar) => bar.low)),
+        });
+      })
+      // the range statistics are shown without it
+      .catch((error) => console.error("Error fetching 52 week range:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    symbol,
+    enabled,
+    provider,
+    endpoint,
+    credentialSource,
+    apiKey,
+    proxyUrl,
+    integration,
+    widgetApi,
+    cacheTtl,
+  ]);
+
+  return priceRange;
+};
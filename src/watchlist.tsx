@@ -0,0 +1,237 @@
+/*!
+ * Copyright 2024, Staffbase GmbH and contributors.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React, { ReactElement, useState } from "react";
+import { DataSourceConfig, useStockSeries } from "./useStockSeries";
+import { LiveSettings, StockChartCard } from "./stock-chart-card";
+import { ChangeArrow } from "./change-arrow";
+import { useFormatters } from "./locale-context";
+import { useTheme } from "./theme-context";
+import { ChartType } from "./price-chart";
+import { ScaleMode } from "./chart-geometry";
+import { ChartRange, RangePresetId } from "./range-presets";
+import { PriceAlerts } from "./price-levels";
+import { IndicatorConfig } from "./indicators";
+import { SeriesBadges } from "./series-badges";
+
+export interface WatchlistProps {
+  symbols: string[];
+  range: ChartRange;
+  presets: RangePresetId[];
+  showinfo: boolean;
+  stockgraphcolor: string;
+  charttype: ChartType;
+  showvolume: boolean;
+  showstats: boolean;
+  showaxes: boolean;
+  gridlines: boolean;
+  scalemode: ScaleMode;
+  compare: string[];
+  indicators: IndicatorConfig[];
+  source: DataSourceConfig;
+  live: LiveSettings;
+}
+
+const noAlerts: PriceAlerts = { above: null, below: null };
+
+const sparklineWidth = 64;
+const sparklineHeight = 20;
+
+/**
+ * Polyline points of a price series, stretched to the sparkline box
+ */
+const getSparklinePoints = (prices: number[]): string => {
+  if (prices.length < 2) return "";
+  const minPrice = Math.min(...prices);
+  const priceRange = Math.max(...prices) - minPrice || 1;
+  const stepX = sparklineWidth / (prices.length - 1);
+  return prices
+    .map((price, i) => {
+      const y = sparklineHeight - ((price - minPrice) / priceRange) * sparklineHeight;
+      return `${i * stepX},${y}`;
+    })
+    .join(" ");
+};
+
+interface WatchlistRowProps {
+  symbol: string;
+  range: ChartRange;
+  source: DataSourceConfig;
+  expanded: boolean;
+  onToggle: () => void;
+}
+
+const WatchlistRow = ({
+  symbol,
+  range,
+  source,
+  expanded,
+  onToggle,
+}: WatchlistRowProps): ReactElement => {
+  const { prices, details, latestClose, error, staleSince, isDemo } = useStockSeries(
+    symbol,
+    range,
+    source
+  );
+
+  const rangeChange = prices.length > 1 ? prices[prices.length - 1] - prices[0] : null;
+  const changePercent =
+    rangeChange !== null ? (rangeChange / (prices[0] || 1)) * 100 : null;
+  const formatters = useFormatters(details?.currency);
+  const theme = useTheme();
+  const changeColor = rangeChange !== null && rangeChange >= 0 ? theme.up : theme.down;
+
+  return (
+    <button
+      type="button"
+      className="stockwidget-watchlistRow"
+      aria-expanded={expanded}
+      onClick={onToggle}
+      style={{
+        width: "100%",
+        display: "grid",
+        gridTemplateColumns: `1fr ${sparklineWidth}px auto auto`,
+        alignItems: "center",
+        gap: "0.6rem",
+        padding: "0.4rem 0.25rem",
+        font: "inherit",
+        color: "inherit",
+        textAlign: "left",
+        background: expanded ? theme.subtle : "none",
+        border: "none",
+        borderRadius: "6px",
+        cursor: "pointer",
+      }}
+    >
+      <span style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "0.3rem" }}>
+        <span style={{ fontWeight: 600, letterSpacing: "-0.01em" }}>{symbol}</span>
+        <SeriesBadges isDemo={isDemo} staleSince={staleSince} error={error} />
+      </span>
+      <svg
+        width={sparklineWidth}
+        height={sparklineHeight}
+        viewBox={`0 0 ${sparklineWidth} ${sparklineHeight}`}
+        aria-hidden="true"
+        focusable="false"
+        style={{ display: "block", overflow: "visible" }}
+      >
+        <polyline
+          points={getSparklinePoints(prices)}
+          fill="none"
+          stroke={changeColor}
+          strokeWidth={1.5}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      </svg>
+      <span style={{ fontVariantNumeric: "tabular-nums", fontWeight: 600, textAlign: "right" }}>
+        {error ? "–" : latestClose !== null ? formatters.price(latestClose) : ""}
+      </span>
+      <span
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "flex-end",
+          gap: "0.25rem",
+          minWidth: "4.5em",
+          color: changeColor,
+          fontSize: "0.85rem",
+          fontWeight: 600,
+          fontVariantNumeric: "tabular-nums",
+        }}
+      >
+        {rangeChange !== null && changePercent !== null && (
+          <>
+            <ChangeArrow up={rangeChange >= 0} color={changeColor} size={8} />
+            {formatters.change(changePercent)}
+          </>
+        )}
+      </span>
+    </button>
+  );
+};
+
+/**
+ * Compact list with one row per symbol; selecting a row expands it into the full card
+ */
+export const Watchlist = ({
+  symbols,
+  range,
+  presets,
+  showinfo,
+  stockgraphcolor,
+  charttype,
+  showvolume,
+  showstats,
+  showaxes,
+  gridlines,
+  scalemode,
+  compare,
+  indicators,
+  source,
+  live,
+}: WatchlistProps): ReactElement => {
+  const [expandedSymbol, setExpandedSymbol] = useState<string | null>(null);
+  const theme = useTheme();
+
+  return (
+    <div
+      className="stockwidget-watchlist"
+      style={{
+        padding: "0.5rem",
+        width: "100%",
+        boxSizing: "border-box",
+        fontSize: "1rem",
+        fontFamily: "\"Space Grotesk\", \"Helvetica Neue\", Arial, sans-serif",
+        color: theme.text,
+      }}
+    >
+      {symbols.map((symbol) => (
+        <div key={symbol}>
+          <WatchlistRow
+            symbol={symbol}
+            range={range}
+            source={source}
+            expanded={expandedSymbol === symbol}
+            onToggle={() =>
+              setExpandedSymbol((current) => (current === symbol ? null : symbol))
+            }
+          />
+          {expandedSymbol === symbol && (
+            <StockChartCard
+              symbol={symbol}
+              range={range}
+              presets={presets}
+              // the configured logo, levels and alerts belong to a single symbol
+              logo=""
+              showinfo={showinfo}
+              stockgraphcolor={stockgraphcolor}
+              charttype={charttype}
+              showvolume={showvolume}
+              showstats={showstats}
+              showaxes={showaxes}
+              gridlines={gridlines}
+              scalemode={scalemode}
+              compare={compare}
+              levels={[]}
+              alerts={noAlerts}
+              indicators={indicators}
+              source={source}
+              live={live}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,6 @@
+// Runs the tests west of UTC, where plain days parsed as UTC midnight fall on the day before
+// eslint-disable-next-line no-undef
+module.exports = () => {
+  // eslint-disable-next-line no-undef
+  process.env.TZ = "America/New_York";
+};
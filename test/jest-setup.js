@@ -1 +1,19 @@
 import '@testing-library/jest-dom'
+
+// jsdom does not implement ResizeObserver, which useContainerSize relies on
+globalThis.ResizeObserver = class ResizeObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+// jsdom does not implement PointerEvent either, so the pointer type and id of touches got lost
+if (!globalThis.PointerEvent) {
+  globalThis.PointerEvent = class PointerEvent extends globalThis.MouseEvent {
+    constructor(type, init = {}) {
+      super(type, init)
+      this.pointerId = init.pointerId ?? 0
+      this.pointerType = init.pointerType ?? ""
+    }
+  }
+}
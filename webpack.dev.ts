@@ -29,6 +29,20 @@ const config: webpack.Configuration = merge(common, {
     },
     compress: true,
     port: 9000,
+    // Simulates a same-origin credentials proxy: set the widget's proxy url to
+    // /market-data/polygon and start the server with POLYGON_API_KEY=<key>
+    proxy: [
+      {
+        context: ["/market-data/polygon"],
+        target: "https://api.polygon.io",
+        changeOrigin: true,
+        pathRewrite: (requestPath: string) => {
+          const upstreamPath = requestPath.replace(/^\/market-data\/polygon/, "");
+          const separator = upstreamPath.includes("?") ? "&" : "?";
+          return `${upstreamPath}${separator}apiKey=${process.env.POLYGON_API_KEY ?? ""}`;
+        },
+      },
+    ],
   },
   mode: "development",
   devtool: "inline-source-map",